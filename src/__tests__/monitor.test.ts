@@ -1,7 +1,37 @@
 // src/__tests__/monitor.test.ts
 import { jest, expect, describe, test } from '@jest/globals';
-import { SeiDepositMonitor, AddressUtils } from '../index.js';
-import type { TransactionDetails } from '../types.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SeiDepositMonitor,
+  AddressUtils,
+  MemoryCheckpointStore,
+  FileCheckpointStore,
+  CoinUtils,
+  DenomMetadataCache,
+  EvmRpcClient,
+  EndpointPool,
+  SEI_NETWORKS,
+  TxDecoder,
+  MemoryMemoRegistry,
+  AddressResolutionError,
+  CachingResolver,
+  ChainedResolver,
+  PrecompileResolver,
+  StaticResolver,
+  CallbackTimeoutError,
+  DepositDeduplicator
+} from '../index.js';
+import type {
+  AddressLinkedEvent,
+  CallbackErrorEvent,
+  ConnectionStateEvent,
+  DepositEvent,
+  TransactionDetails,
+  UnexplainedBalanceChangeEvent,
+  WithdrawalEvent
+} from '../types.js';
 
 describe('SeiDepositMonitor', () => {
   const config = {
@@ -38,11 +68,16 @@ describe('SeiDepositMonitor', () => {
   test('initializes with correct configuration', () => {
     const monitor = new SeiDepositMonitor(config, targetAddress);
     expect(monitor).toBeDefined();
-    expect((monitor as any).targetAddress).toBe(targetAddress);
+    expect(monitor.getWatchedAddresses()).toEqual([{ input: targetAddress, address: targetAddress, kind: 'bech32' }]);
   });
 
   test('correctly identifies deposit types', () => {
     const monitor = new SeiDepositMonitor(config, targetAddress);
+    (monitor as any).watched.set('sei1castaddressxxxx', {
+      input: '0x7b3D6e9756fe4FbdED6881065882323A8C6d9B1A',
+      address: 'sei1castaddressxxxx',
+      kind: 'cast'
+    });
 
     // Access private method for testing
     const determineDepositType = (monitor as any).determineDepositType.bind(monitor);
@@ -52,6 +87,7 @@ describe('SeiDepositMonitor', () => {
       height: '123',
       type: '/cosmos.bank.v1beta1.MsgSend',
       amount: '100usei',
+      coins: [{ denom: 'usei', amount: 100n }],
       receiver: targetAddress,
       gasUsed: '50000',
       gasWanted: '75000',
@@ -63,20 +99,96 @@ describe('SeiDepositMonitor', () => {
       type: '/seiprotocol.seichain.evm.MsgEVMTransaction'
     };
 
-    // Suppose the monitor could produce a cast address. We skip if we haven't set one.
+    // Sent to the cast address of an EOA not associated yet
     const castTx: TransactionDetails = {
       ...directTx,
-      // If you had a real castAddress, you'd do something like:
       receiver: 'sei1castaddressxxxx'
     };
 
     expect(determineDepositType(directTx)).toBe('direct');
     expect(determineDepositType(evmTx)).toBe('evm');
+    expect(determineDepositType(castTx)).toBe('cast');
+  });
+
+  test('links a cast address once its EOA gets associated', async () => {
+    const evmAddress = '0x7b3D6e9756fe4FbdED6881065882323A8C6d9B1A';
+    const castAddress = AddressUtils.ethAddressToBech32(evmAddress, 'sei');
+    const monitor = new SeiDepositMonitor(config, []);
+    (monitor as any).addresses.add(evmAddress);
+    (monitor as any).watched.set(castAddress, { input: evmAddress, address: castAddress, kind: 'cast' });
+    const linked = jest.fn((event: AddressLinkedEvent) => {});
+    monitor.onAddressLinked(linked);
+    // the chain emits evm_addr lowercased
+    expect((monitor as any).subscriptionQueries((monitor as any).watched.get(castAddress))).toContain(
+      `tm.event='Tx' AND address_associated.evm_addr='${evmAddress.toLowerCase()}'`
+    );
+
+    await (monitor as any).handleTransaction(
+      {
+        txhash: 'ASSOC',
+        height: '10',
+        gas_used: '1',
+        gas_wanted: '1',
+        timestamp: '2024-02-09T12:00:00Z',
+        events: [
+          {
+            type: 'address_associated',
+            attributes: [
+              { key: 'sei_addr', value: targetAddress },
+              { key: 'evm_addr', value: evmAddress.toLowerCase() }
+            ]
+          }
+        ]
+      },
+      'ws'
+    );
+
+    expect(linked).toHaveBeenCalledWith({ inputAddress: evmAddress, castAddress, linkedAddress: targetAddress });
+    expect(monitor.getWatchedAddresses().map((w) => [w.address, w.kind])).toEqual([
+      [castAddress, 'cast'],
+      [targetAddress, 'linked']
+    ]);
+  });
+
+  test('re-resolves only the cast address that signed an EVM tx, without holding up the tx', async () => {
+    const signer = '0x7b3D6e9756fe4FbdED6881065882323A8C6d9B1A';
+    const other = '0x1111111111111111111111111111111111111111';
+    const signerCast = AddressUtils.ethAddressToBech32(signer, 'sei');
+    const otherCast = AddressUtils.ethAddressToBech32(other, 'sei');
+    const monitor = new SeiDepositMonitor(config, []);
+    (monitor as any).addresses.add(signer);
+    (monitor as any).addresses.add(other);
+    (monitor as any).watched.set(signerCast, { input: signer, address: signerCast, kind: 'cast' });
+    (monitor as any).watched.set(otherCast, { input: other, address: otherCast, kind: 'cast' });
+    let resolve!: (value: unknown) => void;
+    const resolveEvmAddress = jest.fn(() => new Promise((r) => (resolve = r)));
+    (monitor as any).resolveEvmAddress = resolveEvmAddress;
+    const linked = jest.fn((event: AddressLinkedEvent) => {});
+    monitor.onAddressLinked(linked);
 
-    // If your determineDepositType checks if receiver === castAddress => 'cast'
-    // you'd do:
-    // expect(determineDepositType(castTx)).toBe('cast');
-    // But your code may or may not do that by default, so adapt as needed.
+    await (monitor as any).handleTransaction(
+      {
+        txhash: 'EVMTX',
+        height: '10',
+        gas_used: '1',
+        gas_wanted: '1',
+        timestamp: '2024-02-09T12:00:00Z',
+        events: [
+          { type: 'signer', attributes: [{ key: 'evm_addr', value: signer.toLowerCase() }] },
+          { type: 'message', attributes: [{ key: 'action', value: '/seiprotocol.seichain.evm.MsgEVMTransaction' }] }
+        ]
+      },
+      'ws'
+    );
+
+    // handleTransaction returned while the resolution is still pending
+    expect(resolveEvmAddress).toHaveBeenCalledTimes(1);
+    expect(resolveEvmAddress).toHaveBeenCalledWith(signer);
+    expect(linked).not.toHaveBeenCalled();
+
+    resolve({ address: targetAddress, kind: 'linked' });
+    await new Promise((r) => setImmediate(r));
+    expect(linked).toHaveBeenCalledWith({ inputAddress: signer, castAddress: signerCast, linkedAddress: targetAddress });
   });
 
   test('parses transaction details correctly', () => {
@@ -115,10 +227,1300 @@ describe('SeiDepositMonitor', () => {
     const detail = results[0];
     expect(detail.hash).toBe('abc123');
     expect(detail.amount).toBe('100usei');
+    expect(detail.coins).toEqual([{ denom: 'usei', amount: 100n }]);
     expect(detail.receiver).toBe(targetAddress);
     expect(detail.sender).toBe('sei1sender');
     expect(detail.type).toBe('/cosmos.bank.v1beta1.MsgSend');
   });
+
+  test.each(['multi-msg-legacy-events', 'multi-msg-indexed-events', 'multi-msg-rest-logs'])(
+    'attributes deposits to their own message (%s)',
+    async (fixture) => {
+      const monitor = new SeiDepositMonitor(config, targetAddress);
+      const tx = JSON.parse(await fs.readFile(path.join('src/__tests__/fixtures', `${fixture}.json`), 'utf8'));
+
+      const details: TransactionDetails[] = (monitor as any).parseTransactionDetails(tx);
+      expect(details.map((d) => [d.type, d.sender, d.amount, d.messageIndex, d.eventIndex])).toEqual([
+        ['/cosmos.bank.v1beta1.MsgMultiSend', 'sei1payer', '100usei', 0, 0],
+        ['/seiprotocol.seichain.evm.MsgEVMTransaction', 'sei1evmcaller', '5usei', 1, 0]
+      ]);
+    }
+  );
+
+  test('resolves the denom trace of IBC deposits', async () => {
+    const monitor = new SeiDepositMonitor(config, targetAddress);
+    const ibcDenom = 'ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2';
+    const restGet = jest.fn(async (path: string) => {
+      if (path.startsWith('/ibc/apps/transfer/v1/denom_traces/')) {
+        return { denom_trace: { path: 'transfer/channel-0', base_denom: 'uatom' } };
+      }
+      return { metadatas: [] };
+    });
+    (monitor as any).restGet = restGet;
+    const received: DepositEvent[] = [];
+    monitor.onDeposit((event) => {
+      received.push(event);
+    });
+
+    const ibcTx = {
+      txhash: 'IBC1',
+      height: '10',
+      gas_used: '1',
+      gas_wanted: '1',
+      timestamp: '2024-02-09T12:00:00Z',
+      events: [
+        {
+          type: 'message',
+          attributes: [
+            { key: 'action', value: '/ibc.core.channel.v1.MsgRecvPacket' },
+            { key: 'sender', value: 'sei1relayer' }
+          ]
+        },
+        {
+          type: 'recv_packet',
+          attributes: [
+            { key: 'packet_src_port', value: 'transfer' },
+            { key: 'packet_src_channel', value: 'channel-584' },
+            { key: 'packet_dst_port', value: 'transfer' },
+            { key: 'packet_dst_channel', value: 'channel-0' }
+          ]
+        },
+        {
+          type: 'coin_received',
+          attributes: [
+            { key: 'receiver', value: targetAddress },
+            { key: 'amount', value: `1000000${ibcDenom}` }
+          ]
+        },
+        {
+          type: 'fungible_token_packet',
+          attributes: [
+            { key: 'sender', value: 'cosmos1counterparty' },
+            { key: 'receiver', value: targetAddress },
+            { key: 'denom', value: 'uatom' },
+            { key: 'amount', value: '1000000' }
+          ]
+        }
+      ]
+    };
+
+    await (monitor as any).handleTransaction(ibcTx, 'rest');
+    await (monitor as any).handleTransaction({ ...ibcTx, txhash: 'IBC2' }, 'rest');
+
+    expect(received.length).toBe(2);
+    expect(received[0].type).toBe('ibc');
+    expect(received[0].transaction.ibc).toEqual({
+      sender: 'cosmos1counterparty',
+      sourcePort: 'transfer',
+      sourceChannel: 'channel-584',
+      destinationChannel: 'channel-0',
+      denom: ibcDenom,
+      path: 'transfer/channel-0',
+      baseDenom: 'uatom'
+    });
+    // the trace is cached
+    expect(restGet.mock.calls.filter(([path]) => path.includes('denom_traces')).length).toBe(1);
+  });
+
+  test('detects ERC-20 transfers to watched 0x addresses', async () => {
+    const evmAddress = '0x7b3D6e9756fe4FbdED6881065882323A8C6d9B1A';
+    const bech32 = AddressUtils.ethAddressToBech32(evmAddress, 'sei');
+    const contract = '0x3894085ef7ff0f0aedf52e2a2704928d1ec074f1';
+    const monitor = new SeiDepositMonitor({ ...config, watchErc20: true }, []);
+    (monitor as any).addresses.add(evmAddress);
+    (monitor as any).watched.set(bech32, { input: evmAddress, address: bech32 });
+
+    const abiString = (value: string) =>
+      '0x' +
+      (32).toString(16).padStart(64, '0') +
+      value.length.toString(16).padStart(64, '0') +
+      Buffer.from(value).toString('hex').padEnd(64, '0');
+    const erc721Log = JSON.parse(await fs.readFile(path.join('src/__tests__/fixtures', 'erc721-transfer-log.json'), 'utf8'));
+    const call = jest.fn(async (method: string, params: any[]) => {
+      switch (method) {
+        case 'eth_getLogs':
+          return [
+            {
+              address: contract,
+              topics: [
+                '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+                '0x000000000000000000000000aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+                '0x0000000000000000000000007b3d6e9756fe4fbded6881065882323a8c6d9b1a'
+              ],
+              data: '0x' + (2500000n).toString(16).padStart(64, '0'),
+              blockNumber: '0x64',
+              transactionHash: '0xabc',
+              logIndex: '0x3'
+            },
+            // an ERC-721 transfer shares the Transfer topic
+            erc721Log
+          ];
+        case 'eth_call':
+          if (params[0].data === '0x95d89b41') return abiString('USDC');
+          if (params[0].data === '0x06fdde03') return abiString('USD Coin');
+          return '0x' + (6).toString(16).padStart(64, '0');
+        case 'eth_getBlockByNumber':
+          return { timestamp: '0x65c6150' };
+      }
+      throw new Error(`unexpected ${method}`);
+    });
+    (monitor as any).evmRpc.call = call;
+
+    const details = await (monitor as any).getErc20Deposits(new Map([[bech32, evmAddress]]), 1, 200);
+
+    expect(details.length).toBe(1);
+    const event = (monitor as any).toDepositEvent(details[0], 'rest', evmAddress);
+    expect(event.type).toBe('erc20');
+    expect(event.address).toBe(bech32);
+    expect(event.transaction.height).toBe('100');
+    expect(event.transaction.sender).toBe('0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa');
+    expect(event.transaction.erc20).toEqual({
+      contract,
+      from: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      to: evmAddress.toLowerCase(),
+      logIndex: 3,
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6
+    });
+    expect(event.transaction.coins[0].display).toEqual({ denom: 'USDC', decimals: 6, amount: '2.5' });
+    const logsFilter = call.mock.calls[0][1][0];
+    expect(logsFilter.fromBlock).toBe('0x1');
+    expect(logsFilter.toBlock).toBe('0xc8');
+  });
+
+  test('detects CW20 transfers from wasm events', async () => {
+    const contract = 'sei1cw20contractxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+    const monitor = new SeiDepositMonitor({ ...config, watchCw20: true }, targetAddress);
+    (monitor as any).restGet = jest.fn(async (path: string) => {
+      if (path.startsWith(`/cosmwasm/wasm/v1/contract/${contract}/smart/`)) {
+        return { data: { name: 'Test Token', symbol: 'TST', decimals: 6, total_supply: '1000000000' } };
+      }
+      return { metadatas: [] };
+    });
+    const received: DepositEvent[] = [];
+    monitor.onDeposit((event) => {
+      received.push(event);
+    });
+
+    await (monitor as any).handleTransaction(
+      {
+        txhash: 'CW20',
+        height: '10',
+        gas_used: '1',
+        gas_wanted: '1',
+        timestamp: '2024-02-09T12:00:00Z',
+        events: [
+          {
+            type: 'message',
+            attributes: [
+              { key: 'action', value: '/cosmwasm.wasm.v1.MsgExecuteContract' },
+              { key: 'sender', value: 'sei1sender' }
+            ]
+          },
+          {
+            type: 'wasm',
+            attributes: [
+              { key: '_contract_address', value: contract },
+              { key: 'action', value: 'transfer' },
+              { key: 'from', value: 'sei1sender' },
+              { key: 'to', value: targetAddress },
+              { key: 'amount', value: '1500000' },
+              { key: '_contract_address', value: contract },
+              { key: 'action', value: 'transfer' },
+              { key: 'from', value: 'sei1sender' },
+              { key: 'to', value: 'sei1someoneelse' },
+              { key: 'amount', value: '7' }
+            ]
+          }
+        ]
+      },
+      'rest'
+    );
+
+    expect(received.length).toBe(1);
+    expect(received[0].type).toBe('cw20');
+    expect(received[0].transaction.sender).toBe('sei1sender');
+    expect(received[0].transaction.cw20).toEqual({
+      contract,
+      action: 'transfer',
+      from: 'sei1sender',
+      symbol: 'TST',
+      name: 'Test Token',
+      decimals: 6
+    });
+    expect(received[0].transaction.coins).toEqual([
+      { denom: `cw20:${contract}`, amount: 1500000n, display: { denom: 'TST', decimals: 6, amount: '1.5' } }
+    ]);
+  });
+
+  test('reports resolution failures instead of hiding them', async () => {
+    const evmAddress = '0x7b3D6e9756fe4FbdED6881065882323A8C6d9B1A';
+    const failing = {
+      resolve: jest.fn(async (_evmAddress: string): Promise<string | null> => {
+        throw new Error('wallet service down');
+      })
+    };
+    const monitor = new SeiDepositMonitor({ ...config, addressResolver: failing }, []);
+    (monitor as any).evmRpc.call = jest.fn(async (method: string) => (method === 'eth_getCode' ? '0x' : '0x0'));
+
+    const resolved = await (monitor as any).resolveEvmAddress(evmAddress);
+    expect(resolved.kind).toBe('cast');
+    expect(resolved.resolutionError).toBeInstanceOf(AddressResolutionError);
+    expect(resolved.resolutionError.message).toContain('wallet service down');
+
+    const strict = new SeiDepositMonitor({ ...config, addressResolver: failing, strictResolution: true }, []);
+    (strict as any).evmRpc.call = (monitor as any).evmRpc.call;
+    await expect((strict as any).resolveEvmAddress(evmAddress)).rejects.toThrow(AddressResolutionError);
+  });
+
+  test('skips failed transactions unless includeFailed is set', async () => {
+    const failedTx = {
+      txhash: 'FAILED',
+      height: '10',
+      code: 5,
+      codespace: 'sdk',
+      raw_log: 'insufficient funds',
+      gas_used: '1',
+      gas_wanted: '1',
+      timestamp: '2024-02-09T12:00:00Z',
+      tx: {
+        body: { memo: 'user-42' },
+        auth_info: { fee: { amount: [{ denom: 'usei', amount: '2000' }] } }
+      },
+      events: [
+        {
+          type: 'coin_received',
+          attributes: [
+            { key: 'receiver', value: targetAddress },
+            { key: 'amount', value: '100usei' }
+          ]
+        }
+      ]
+    };
+
+    const monitor = new SeiDepositMonitor(config, targetAddress);
+    expect((monitor as any).parseTransactionDetails(failedTx)).toEqual([]);
+
+    const optedIn = new SeiDepositMonitor({ ...config, includeFailed: true }, targetAddress);
+    (optedIn as any).enrichDetail = jest.fn(async () => {});
+    const received: DepositEvent[] = [];
+    optedIn.onDeposit((event) => {
+      received.push(event);
+    });
+    await (optedIn as any).handleTransaction(failedTx, 'rest');
+
+    expect(received.length).toBe(1);
+    expect(received[0].status).toBe('failed');
+    expect(received[0].transaction).toMatchObject({
+      code: 5,
+      codespace: 'sdk',
+      rawLog: 'insufficient funds',
+      fee: '2000usei',
+      memo: 'user-42'
+    });
+  });
+
+  test('deduplicates deposits seen by both WS and REST', async () => {
+    const monitor = new SeiDepositMonitor(config, targetAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const handleTransaction = (monitor as any).handleTransaction.bind(monitor);
+    const received: DepositEvent[] = [];
+    monitor.onDeposit((event) => {
+      received.push(event);
+    });
+
+    const events = [
+      {
+        type: 'coin_received',
+        attributes: [
+          { key: 'receiver', value: targetAddress },
+          { key: 'amount', value: '100usei' }
+        ]
+      }
+    ];
+    const wsTx = (monitor as any).normalizeWsTxResult(
+      { height: '123456', result: { gas_used: '50000', gas_wanted: '75000', events } },
+      'ABC123'
+    );
+    const restTx = {
+      txhash: 'ABC123',
+      height: '123456',
+      gas_used: '50000',
+      gas_wanted: '75000',
+      timestamp: '2024-02-09T12:00:00Z',
+      events
+    };
+
+    await handleTransaction(wsTx, 'ws');
+    await handleTransaction(restTx, 'rest');
+
+    expect(received.length).toBe(1);
+    expect(received[0].source).toBe('ws');
+    expect(received[0].transaction.hash).toBe('ABC123');
+  });
+
+  test('reads the fee of WS txs from their events', () => {
+    const monitor = new SeiDepositMonitor(config, targetAddress);
+    const wsTx = (monitor as any).normalizeWsTxResult(
+      {
+        height: '123456',
+        result: {
+          gas_used: '50000',
+          gas_wanted: '75000',
+          events: [
+            { type: 'tx', attributes: [{ key: 'fee', value: '2000usei' }] },
+            {
+              type: 'coin_received',
+              attributes: [
+                { key: 'receiver', value: targetAddress },
+                { key: 'amount', value: '100usei' }
+              ]
+            }
+          ]
+        }
+      },
+      'ABC123'
+    );
+
+    expect((monitor as any).parseTransactionDetails(wsTx).map((d: TransactionDetails) => d.fee)).toEqual(['2000usei']);
+  });
+
+  test('lets a deposit be claimed again after the dedup store failed', async () => {
+    const keys = new Set<string>();
+    let failures = 1;
+    const store = {
+      has: async (key: string) => {
+        if (failures-- > 0) throw new Error('store unavailable');
+        return keys.has(key);
+      },
+      add: async (key: string) => {
+        keys.add(key);
+      }
+    };
+    const dedup = new DepositDeduplicator({ store });
+    const detail = { hash: 'FLAKY', messageIndex: 0, eventIndex: 0 } as TransactionDetails;
+
+    await expect(dedup.claim(detail, 'rest')).rejects.toThrow('store unavailable');
+    expect(await dedup.claim(detail, 'rest')).toBe(true);
+    expect(await dedup.claim(detail, 'ws')).toBe(false);
+  });
+
+  test('keeps dedup keys stable when the watched set changes between WS and REST', async () => {
+    const otherAddress = 'sei1otheraddressxxxxxxxxxxxxxxxxxxxxxxxxxx';
+    const monitor = new SeiDepositMonitor(config, otherAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const received: string[] = [];
+    monitor.onDeposit((event) => {
+      received.push(`${event.source}:${event.address}:${event.transaction.amount}`);
+    });
+
+    const tx = {
+      txhash: 'PAIRS',
+      height: '10',
+      gas_used: '1',
+      gas_wanted: '1',
+      timestamp: '2024-02-09T12:00:00Z',
+      events: [
+        {
+          type: 'coin_received',
+          attributes: [
+            { key: 'receiver', value: targetAddress },
+            { key: 'amount', value: '1usei' },
+            { key: 'receiver', value: otherAddress },
+            { key: 'amount', value: '2usei' }
+          ]
+        }
+      ]
+    };
+    await (monitor as any).handleTransaction(tx, 'ws');
+    await monitor.addAddress(targetAddress);
+    await (monitor as any).handleTransaction(tx, 'rest');
+
+    expect(received).toEqual([`ws:${otherAddress}:2usei`, `rest:${targetAddress}:1usei`]);
+  });
+
+  test('notifies every lifecycle transition until the deposit is final', async () => {
+    const monitor = new SeiDepositMonitor(
+      {
+        ...config,
+        confirmations: { default: 2, thresholds: [{ denom: 'usei', minAmount: '1000000', confirmations: 4 }] }
+      },
+      targetAddress
+    );
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const received: DepositEvent[] = [];
+    monitor.onDeposit((event) => {
+      received.push(event);
+    });
+
+    const deposit = (hash: string, amount: bigint): TransactionDetails => ({
+      hash,
+      height: '100',
+      type: '/cosmos.bank.v1beta1.MsgSend',
+      amount: `${amount}usei`,
+      coins: [{ denom: 'usei', amount }],
+      receiver: targetAddress,
+      gasUsed: '',
+      gasWanted: '',
+      timestamp: '2024-02-09T12:00:00Z'
+    });
+    await (monitor as any).emitDeposit(deposit('SMALL', 10n), 'ws');
+    await (monitor as any).emitDeposit(deposit('LARGE', 5000000n), 'ws');
+    for (const height of [101, 102, 103]) {
+      await (monitor as any).advanceTip(height);
+    }
+
+    const stages = (hash: string) =>
+      received.filter((e) => e.transaction.hash === hash).map((e) => [e.stage, e.confirmations, e.requiredConfirmations]);
+    expect(stages('SMALL')).toEqual([
+      ['pending', 1, 2],
+      ['final', 2, 2]
+    ]);
+    expect(stages('LARGE')).toEqual([
+      ['pending', 1, 4],
+      ['confirmed', 2, 4],
+      ['confirmed', 3, 4],
+      ['final', 4, 4]
+    ]);
+    expect((monitor as any).pendingDeposits.size).toBe(0);
+  });
+
+  test('lets a denom rule lower the required confirmations below the default', () => {
+    const monitor = new SeiDepositMonitor({ ...config, confirmations: { default: 10, denoms: { usei: 2 } } }, targetAddress);
+    const detail = (denom: string): TransactionDetails => ({
+      hash: 'CONF',
+      height: '100',
+      type: '/cosmos.bank.v1beta1.MsgSend',
+      amount: `1${denom}`,
+      coins: [{ denom, amount: 1n }],
+      receiver: targetAddress,
+      gasUsed: '',
+      gasWanted: '',
+      timestamp: '2024-02-09T12:00:00Z'
+    });
+
+    expect((monitor as any).requiredConfirmations(detail('usei'))).toBe(2);
+    expect((monitor as any).requiredConfirmations(detail('uatom'))).toBe(10);
+    expect((monitor as any).requiredConfirmations({ ...detail('usei'), coins: [] })).toBe(10);
+  });
+
+  test('reports mempool deposits as pending, then reconciles or drops them', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, watchMempool: true }, targetAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const received: DepositEvent[] = [];
+    monitor.onDeposit((event) => {
+      received.push(event);
+    });
+
+    const send = (amount: string) =>
+      Buffer.concat([protoField(1, 'sei1sender'), protoField(2, targetAddress), protoField(3, protoCoin(amount, 'usei'))]);
+    const committed = encodeTx([['/cosmos.bank.v1beta1.MsgSend', send('100')]]);
+    const evicted = encodeTx([['/cosmos.bank.v1beta1.MsgSend', send('200')]]);
+    let mempool = [committed, evicted];
+    (monitor as any).wsPool.request = jest.fn(async () => ({ result: { txs: mempool } }));
+    (monitor as any).getTx = jest.fn(async () => null);
+
+    await (monitor as any).pollMempool();
+    expect(received.map((e) => [e.source, e.stage, e.confirmations, e.transaction.amount])).toEqual([
+      ['mempool', 'pending', 0, '100usei'],
+      ['mempool', 'pending', 0, '200usei']
+    ]);
+
+    // the first tx gets committed
+    await (monitor as any).handleTransaction(
+      {
+        txhash: TxDecoder.hash(committed),
+        height: '50',
+        gas_used: '1',
+        gas_wanted: '1',
+        timestamp: '2024-02-09T12:00:00Z',
+        events: [{ type: 'coin_received', attributes: [{ key: 'receiver', value: targetAddress }, { key: 'amount', value: '100usei' }] }]
+      },
+      'ws'
+    );
+    expect(received[2]).toMatchObject({ source: 'ws', stage: 'final' });
+
+    // the second disappears and is unknown to the chain
+    mempool = [];
+    await (monitor as any).pollMempool();
+    (monitor as any).mempoolDeposits.get(TxDecoder.hash(evicted)).missingSince = 0;
+    await (monitor as any).pollMempool();
+    expect(received.slice(3).map((e) => [e.stage, e.transaction.amount])).toEqual([['dropped', '200usei']]);
+    expect((monitor as any).mempoolDeposits.size).toBe(0);
+  });
+
+  test('pages through the mempool and only drops txs known to be gone', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, watchMempool: true }, targetAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const received: DepositEvent[] = [];
+    monitor.onDeposit((event) => {
+      received.push(event);
+    });
+
+    const send = (amount: string) =>
+      Buffer.concat([protoField(1, 'sei1sender'), protoField(2, targetAddress), protoField(3, protoCoin(amount, 'usei'))]);
+    const deposit = encodeTx([['/cosmos.bank.v1beta1.MsgSend', send('100')]]);
+    const filler = Array.from({ length: 100 }, (_, i) => Buffer.from(`not a tx ${i}`).toString('base64'));
+    // the deposit sits on the second page
+    let pages = [filler, [deposit]];
+    const request = jest.fn(async () => {
+      const page = pages[Math.min(request.mock.calls.length, pages.length) - 1];
+      return { result: { txs: page, total: String(pages.flat().length) } };
+    });
+    (monitor as any).wsPool.request = request;
+    const getTx = jest.fn(async () => null);
+    (monitor as any).getTx = getTx;
+
+    await (monitor as any).pollMempool();
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(received.map((e) => [e.stage, e.transaction.amount])).toEqual([['pending', '100usei']]);
+
+    // a node that ignores `page` keeps answering the first page => the deposit cannot be told gone
+    request.mockClear();
+    request.mockImplementation(async () => ({ result: { txs: filler, total: '101' } }));
+    await (monitor as any).pollMempool();
+    (monitor as any).mempoolDeposits.get(TxDecoder.hash(deposit)).missingSince = 0;
+    await (monitor as any).pollMempool();
+    expect(getTx).toHaveBeenCalled();
+    expect(received.length).toBe(1);
+    expect((monitor as any).mempoolDeposits.size).toBe(1);
+  });
+
+  test('routes deposits on a shared address by memo', async () => {
+    const registry = new MemoryMemoRegistry();
+    registry.register(targetAddress, '1001', 'alice');
+    const monitor = new SeiDepositMonitor({ ...config, memoRouting: { registry } }, targetAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const attributed: DepositEvent[] = [];
+    const unattributed: DepositEvent[] = [];
+    monitor.onDeposit((event) => {
+      attributed.push(event);
+    });
+    monitor.onUnattributed((event) => {
+      unattributed.push(event);
+    });
+
+    // the memo of a WS tx is decoded from its tx bytes
+    const send = Buffer.concat([protoField(1, 'sei1sender'), protoField(2, targetAddress), protoField(3, protoCoin('100', 'usei'))]);
+    const events = [{ type: 'coin_received', attributes: [{ key: 'receiver', value: targetAddress }, { key: 'amount', value: '100usei' }] }];
+    const wsTx = (txBytes: string) =>
+      (monitor as any).normalizeWsTxResult({ height: '10', tx: txBytes, result: { events } });
+    for (const memo of [' 1001 ', '9999', '']) {
+      await (monitor as any).handleTransaction(wsTx(encodeTx([['/cosmos.bank.v1beta1.MsgSend', send]], memo)), 'ws');
+    }
+
+    expect(attributed.map((e) => [e.transaction.memo, e.account])).toEqual([[' 1001 ', 'alice']]);
+    expect(unattributed.map((e) => [e.transaction.memo, e.unattributed])).toEqual([
+      ['9999', 'unknown_memo'],
+      [undefined, 'missing_memo']
+    ]);
+  });
+
+  test('times out and retries hung callbacks, then reports them', async () => {
+    const monitor = new SeiDepositMonitor(
+      { ...config, callbacks: { timeout: 10, retries: 1, retryDelay: 1 } },
+      targetAddress
+    );
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const hung = jest.fn(() => new Promise<void>(() => {}));
+    const next = jest.fn((event: DepositEvent) => {});
+    const failures: CallbackErrorEvent[] = [];
+    monitor.onDeposit(hung);
+    monitor.onDeposit(next);
+    monitor.onCallbackError((failure) => {
+      failures.push(failure);
+    });
+
+    await (monitor as any).handleTransaction(
+      {
+        txhash: 'HUNG',
+        height: '10',
+        gas_used: '1',
+        gas_wanted: '1',
+        timestamp: '2024-02-09T12:00:00Z',
+        events: [{ type: 'coin_received', attributes: [{ key: 'receiver', value: targetAddress }, { key: 'amount', value: '1usei' }] }]
+      },
+      'rest'
+    );
+
+    expect(hung).toHaveBeenCalledTimes(2);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(failures.map((f) => [f.event.transaction.hash, f.attempts, f.timedOut])).toEqual([['HUNG', 2, true]]);
+    expect(failures[0].error).toBeInstanceOf(CallbackTimeoutError);
+  });
+
+  test('holds the checkpoint until per-address callbacks have handled the deposit', async () => {
+    const checkpointStore = new MemoryCheckpointStore();
+    await checkpointStore.set(targetAddress, 100);
+    const monitor = new SeiDepositMonitor(
+      { ...config, checkpointStore, callbacks: { concurrency: 'per-address', holdCheckpoint: true } },
+      targetAddress
+    );
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    (monitor as any).getLatestBlockHeight = jest.fn(async () => 110);
+    const tx = {
+      txhash: 'SLOW',
+      height: '105',
+      gas_used: '1',
+      gas_wanted: '1',
+      timestamp: '2024-02-09T12:00:00Z',
+      events: [{ type: 'coin_received', attributes: [{ key: 'receiver', value: targetAddress }, { key: 'amount', value: '1usei' }] }]
+    };
+    (monitor as any).getTransactions = jest.fn(async () => [tx]);
+    let release = () => {};
+    const handler = jest.fn(() => new Promise<void>((resolve) => (release = resolve)));
+    monitor.onDeposit(handler);
+
+    // the monitor goes on while the handler runs, but does not checkpoint past the deposit
+    await (monitor as any).catchUp();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await checkpointStore.get(targetAddress)).toBe(104);
+
+    release();
+    await (monitor as any).callbackRunner.idle();
+    await new Promise((resolve) => setImmediate(resolve));
+    (monitor as any).getTransactions = jest.fn(async () => []);
+    await (monitor as any).syncTo(111);
+    expect(await checkpointStore.get(targetAddress)).toBe(111);
+  });
+
+  test('emits typed events and streams deposits with backpressure', async () => {
+    const monitor = new SeiDepositMonitor(config, []);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const resolved: string[] = [];
+    const deposits: string[] = [];
+    monitor.on('addressResolved', (watched) => resolved.push(`${watched.input}:${watched.kind}`));
+    monitor.on('deposit', (event) => deposits.push(event.transaction.hash));
+    await monitor.addAddress(targetAddress);
+    expect(resolved).toEqual([`${targetAddress}:bech32`]);
+
+    const tx = (hash: string) => ({
+      txhash: hash,
+      height: '10',
+      gas_used: '1',
+      gas_wanted: '1',
+      timestamp: '2024-02-09T12:00:00Z',
+      events: [{ type: 'coin_received', attributes: [{ key: 'receiver', value: targetAddress }, { key: 'amount', value: '1usei' }] }]
+    });
+    const stream = monitor.deposits({ highWaterMark: 2 });
+    await (monitor as any).handleTransaction(tx('A'), 'rest');
+
+    // the buffer is full after B => the monitor waits for the consumer before going on
+    let handledC = false;
+    const handling = (async () => {
+      await (monitor as any).handleTransaction(tx('B'), 'rest');
+      await (monitor as any).handleTransaction(tx('C'), 'rest');
+      handledC = true;
+    })();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(handledC).toBe(false);
+    expect(deposits).toEqual(['A', 'B']);
+
+    const seen: string[] = [];
+    for await (const deposit of stream) {
+      seen.push(deposit.transaction.hash);
+      if (seen.length === 3) break;
+    }
+    await handling;
+    expect(seen).toEqual(['A', 'B', 'C']);
+    expect((monitor as any).depositStreams.size).toBe(0);
+  });
+
+  test('reports withdrawals with their recipient and fee', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, direction: 'both' }, targetAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const withdrawals: WithdrawalEvent[] = [];
+    const deposits: DepositEvent[] = [];
+    monitor.onWithdrawal((event) => {
+      withdrawals.push(event);
+    });
+    monitor.onDeposit((event) => {
+      deposits.push(event);
+    });
+
+    const pair = (type: string, attributes: Record<string, string>) => ({
+      type,
+      attributes: Object.entries(attributes).map(([key, value]) => ({ key, value }))
+    });
+    // WS events of a MsgSend: the fee payment comes first, before the `tx` event holding the fee
+    await (monitor as any).handleTransaction(
+      {
+        txhash: 'OUT',
+        height: '10',
+        gas_used: '1',
+        gas_wanted: '1',
+        timestamp: '2024-02-09T12:00:00Z',
+        events: [
+          pair('coin_spent', { spender: targetAddress, amount: '20000usei' }),
+          pair('coin_received', { receiver: 'sei1feecollector', amount: '20000usei' }),
+          pair('transfer', { recipient: 'sei1feecollector', sender: targetAddress, amount: '20000usei' }),
+          pair('tx', { fee: '20000usei', fee_payer: targetAddress }),
+          pair('message', { action: '/cosmos.bank.v1beta1.MsgSend', sender: targetAddress }),
+          pair('coin_spent', { spender: targetAddress, amount: '500usei' }),
+          pair('coin_received', { receiver: 'sei1recipient', amount: '500usei' }),
+          pair('transfer', { recipient: 'sei1recipient', sender: targetAddress, amount: '500usei' })
+        ]
+      },
+      'ws'
+    );
+
+    expect(deposits).toEqual([]);
+    expect(withdrawals.map((w) => [w.address, w.recipient, w.amount, w.fee, w.transaction.type])).toEqual([
+      [targetAddress, 'sei1recipient', '500usei', '20000usei', '/cosmos.bank.v1beta1.MsgSend']
+    ]);
+
+    const queries = (monitor as any).subscriptionQueries({ input: targetAddress, address: targetAddress, kind: 'bech32' });
+    expect(queries).toContain(`tm.event='Tx' AND coin_spent.spender='${targetAddress}'`);
+    const getTransactions = jest.fn(async () => []);
+    (monitor as any).getTransactions = getTransactions;
+    await (monitor as any).fetchTransactions([targetAddress], 1, 2);
+    expect(getTransactions.mock.calls.map((call: any[]) => call[3])).toEqual(['coin_received.receiver', 'coin_spent.spender']);
+  });
+
+  test('flags balance changes the reported deposits do not explain', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, reconcileBalances: true }, targetAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    (monitor as any).getTransactions = jest.fn(async () => []);
+    const balanceAt: Record<string, string> = { '100': '1000', '102': '1100', '104': '1150' };
+    const restGet = jest.fn(async (path: string, headers?: Record<string, string>) => ({
+      balances: [{ denom: 'usei', amount: balanceAt[headers!['x-cosmos-block-height']] }]
+    }));
+    (monitor as any).restGet = restGet;
+    const unexplained: UnexplainedBalanceChangeEvent[] = [];
+    monitor.onUnexplainedBalanceChange((event) => {
+      unexplained.push(event);
+    });
+
+    await (monitor as any).syncTo(100);
+    await (monitor as any).handleTransaction(
+      {
+        txhash: 'IN',
+        height: '101',
+        gas_used: '1',
+        gas_wanted: '1',
+        timestamp: '2024-02-09T12:00:00Z',
+        events: [{ type: 'coin_received', attributes: [{ key: 'receiver', value: targetAddress }, { key: 'amount', value: '100usei' }] }]
+      },
+      'ws'
+    );
+    // the 100usei deposit explains the change
+    await (monitor as any).syncTo(102);
+    expect(unexplained).toEqual([]);
+
+    // 50usei came in without a deposit event (e.g. staking rewards)
+    await (monitor as any).syncTo(104);
+    expect(restGet).toHaveBeenLastCalledWith(`/cosmos/bank/v1beta1/balances/${targetAddress}?pagination.limit=1000`, {
+      'x-cosmos-block-height': '104'
+    });
+    expect(unexplained).toEqual([
+      { address: targetAddress, fromHeight: 102, toHeight: 104, changes: [{ denom: 'usei', expected: 0n, actual: 50n }] }
+    ]);
+  });
+
+  test('explains the fees of txs that moved nothing else, failed ones included', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, direction: 'out', reconcileBalances: true }, targetAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    (monitor as any).getTransactions = jest.fn(async () => []);
+    const balanceAt: Record<string, string> = { '100': '1000', '102': '980', '104': '900' };
+    (monitor as any).restGet = jest.fn(async (path: string, headers?: Record<string, string>) => ({
+      balances: [{ denom: 'usei', amount: balanceAt[headers!['x-cosmos-block-height']] }]
+    }));
+    const unexplained: UnexplainedBalanceChangeEvent[] = [];
+    monitor.onUnexplainedBalanceChange((event) => {
+      unexplained.push(event);
+    });
+
+    await (monitor as any).syncTo(100);
+    // a failed vote: only the fee payment, whose payer is the spender before the `tx` event
+    const vote = {
+      txhash: 'VOTE',
+      height: '101',
+      code: 5,
+      gas_used: '1',
+      gas_wanted: '1',
+      timestamp: '2024-02-09T12:00:00Z',
+      events: [
+        { type: 'coin_spent', attributes: [{ key: 'spender', value: targetAddress }, { key: 'amount', value: '20usei' }] },
+        { type: 'tx', attributes: [{ key: 'fee', value: '20usei' }] },
+        { type: 'message', attributes: [{ key: 'action', value: '/cosmos.gov.v1beta1.MsgVote' }] }
+      ]
+    };
+    await (monitor as any).handleTransaction(vote, 'ws');
+    await (monitor as any).handleTransaction(vote, 'rest');
+    await (monitor as any).syncTo(102);
+    expect(unexplained).toEqual([]);
+
+    await (monitor as any).syncTo(104);
+    expect(unexplained).toEqual([
+      { address: targetAddress, fromHeight: 102, toHeight: 104, changes: [{ denom: 'usei', expected: 0n, actual: -80n }] }
+    ]);
+  });
+
+  test('matches deposits against every watched address', async () => {
+    const otherAddress = 'sei1otheraddressxxxxxxxxxxxxxxxxxxxxxxxxxx';
+    const monitor = new SeiDepositMonitor(config, [targetAddress]);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    await monitor.addAddress(otherAddress);
+    const handleTransaction = (monitor as any).handleTransaction.bind(monitor);
+    const received: DepositEvent[] = [];
+    monitor.onDeposit((event) => {
+      received.push(event);
+    });
+
+    const tx = {
+      txhash: 'MULTI',
+      height: '1',
+      gas_used: '1',
+      gas_wanted: '1',
+      timestamp: '2024-02-09T12:00:00Z',
+      events: [
+        {
+          type: 'coin_received',
+          attributes: [
+            { key: 'receiver', value: targetAddress },
+            { key: 'amount', value: '1usei' },
+            { key: 'receiver', value: otherAddress },
+            { key: 'amount', value: '2usei' }
+          ]
+        }
+      ]
+    };
+
+    await handleTransaction(tx, 'rest');
+    expect(received.map((e) => e.address)).toEqual([targetAddress, otherAddress]);
+    expect(received[1].inputAddress).toBe(otherAddress);
+
+    monitor.removeAddress(otherAddress);
+    await handleTransaction({ ...tx, txhash: 'MULTI2' }, 'rest');
+    expect(received.length).toBe(3);
+    expect(received[2].address).toBe(targetAddress);
+  });
+
+  test('queries the block range and walks every page of results', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, restPageSize: 2 }, targetAddress);
+    const pages = [
+      { tx_responses: [{ txhash: 'b', height: '12' }, { txhash: 'a', height: '11' }], total: '3' },
+      { tx_responses: [{ txhash: 'c', height: '15' }], total: '3' }
+    ];
+    const paths: string[] = [];
+    (monitor as any).restGet = jest.fn(async (path: string) => {
+      paths.push(path);
+      return pages[paths.length - 1];
+    });
+
+    const txs = await (monitor as any).getTransactions(targetAddress, 10, 20);
+
+    expect(paths.length).toBe(2);
+    const params = new URLSearchParams(paths[0].split('?')[1]);
+    expect(params.getAll('events')).toEqual([
+      `coin_received.receiver='${targetAddress}'`,
+      'tx.height>=10',
+      'tx.height<=20'
+    ]);
+    expect(params.get('order_by')).toBe('ORDER_BY_ASC');
+    expect(new URLSearchParams(paths[1].split('?')[1]).get('page')).toBe('2');
+    expect(txs.map((t: any) => t.txhash)).toEqual(['a', 'b', 'c']);
+  });
+
+  test('keeps paging past short pages while the total says there are more results', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, restPageSize: 200 }, targetAddress);
+    // the node hands out fewer txs per page than asked for
+    const all = Array.from({ length: 250 }, (_, i) => ({ txhash: `T${i}`, height: String(10 + i) }));
+    const paths: string[] = [];
+    (monitor as any).restGet = jest.fn(async (path: string) => {
+      paths.push(path);
+      const params = new URLSearchParams(path.split('?')[1]);
+      const offset = Number(params.get('pagination.offset'));
+      return { tx_responses: all.slice(offset, offset + Math.min(60, Number(params.get('limit')))), total: '250' };
+    });
+
+    const txs = await (monitor as any).getTransactions(targetAddress, 10, 300);
+
+    expect(txs.length).toBe(250);
+    expect(new URLSearchParams(paths[0].split('?')[1]).get('limit')).toBe('100');
+  });
+
+  test('stops paging on a repeated page and follows next_key when given', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, restPageSize: 2 }, targetAddress);
+    // a node ignoring page/offset answers with the first page again and again
+    const full = { tx_responses: [{ txhash: 'a', height: '11' }, { txhash: 'b', height: '12' }] };
+    const ignoring = jest.fn(async (_path: string) => full);
+    (monitor as any).restGet = ignoring;
+    expect((await (monitor as any).getTransactions(targetAddress, 10, 20)).map((t: any) => t.txhash)).toEqual(['a', 'b']);
+    expect(ignoring).toHaveBeenCalledTimes(2);
+
+    const pages: Record<string, any> = {
+      '': { ...full, pagination: { next_key: 'KEY2' } },
+      KEY2: { tx_responses: [{ txhash: 'c', height: '13' }, { txhash: 'd', height: '14' }], pagination: { next_key: null } }
+    };
+    const paths: string[] = [];
+    (monitor as any).restGet = jest.fn(async (path: string) => {
+      paths.push(path);
+      return pages[new URLSearchParams(path.split('?')[1]).get('pagination.key') ?? ''];
+    });
+    const txs = await (monitor as any).getTransactions(targetAddress, 10, 20);
+
+    expect(txs.map((t: any) => t.txhash)).toEqual(['a', 'b', 'c', 'd']);
+    expect(paths.length).toBe(2);
+    const second = new URLSearchParams(paths[1].split('?')[1]);
+    expect(second.get('pagination.key')).toBe('KEY2');
+    expect(second.has('pagination.offset')).toBe(false);
+  });
+
+  test('catches up from the checkpoint to the chain tip on start', async () => {
+    const checkpointStore = new MemoryCheckpointStore();
+    await checkpointStore.set(targetAddress, 100);
+    const monitor = new SeiDepositMonitor({ ...config, checkpointStore }, targetAddress);
+    (monitor as any).getLatestBlockHeight = jest.fn(async () => 110);
+    const getTransactions = jest.fn(async () => []);
+    (monitor as any).getTransactions = getTransactions;
+    const caughtUp = jest.fn((height: number) => {});
+    monitor.onCaughtUp(caughtUp);
+
+    await (monitor as any).catchUp();
+
+    expect(getTransactions).toHaveBeenCalledWith(targetAddress, 101, 110, 'coin_received.receiver');
+    expect(await checkpointStore.get(targetAddress)).toBe(110);
+    expect(caughtUp).toHaveBeenCalledWith(110);
+  });
+
+  test('backfills a block range in height order with progress', async () => {
+    const monitor = new SeiDepositMonitor(config, targetAddress);
+    (monitor as any).enrichDetail = jest.fn(async () => {});
+    const depositAt = (height: number) => ({
+      txhash: `TX${height}`,
+      height: String(height),
+      gas_used: '1',
+      gas_wanted: '1',
+      timestamp: '2024-02-09T12:00:00Z',
+      events: [
+        {
+          type: 'coin_received',
+          attributes: [
+            { key: 'receiver', value: targetAddress },
+            { key: 'amount', value: '1usei' }
+          ]
+        }
+      ]
+    });
+    (monitor as any).getTransactions = jest.fn(async (_address: string, from: number, to: number) =>
+      [5, 15, 25].filter((h) => h >= from && h <= to).map(depositAt)
+    );
+    const progress: number[] = [];
+
+    const hashes: string[] = [];
+    for await (const deposit of monitor.backfill({
+      fromHeight: 1,
+      toHeight: 30,
+      chunkSize: 10,
+      concurrency: 3,
+      onProgress: (p) => progress.push(p.processedHeight)
+    })) {
+      expect(deposit.source).toBe('backfill');
+      hashes.push(deposit.transaction.hash);
+    }
+
+    expect(hashes).toEqual(['TX5', 'TX15', 'TX25']);
+    expect(progress).toEqual([10, 20, 30]);
+  });
+
+  test('computes the WS tx hash from tx bytes when the event is missing', () => {
+    const monitor = new SeiDepositMonitor(config, targetAddress);
+    const tx = (monitor as any).normalizeWsTxResult({ height: '1', tx: Buffer.from('tx').toString('base64') });
+    expect(tx.txhash).toMatch(/^[0-9A-F]{64}$/);
+  });
+
+  test('refuses to start against a node of another chain', async () => {
+    const monitor = new SeiDepositMonitor({ ...SEI_NETWORKS['atlantic-2'] }, targetAddress);
+    expect((monitor as any).evmRpc.endpoint).toBe('https://evm-rpc-testnet.sei-apis.com');
+
+    (monitor as any).restGet = jest.fn(async () => ({ default_node_info: { network: 'pacific-1' } }));
+    const catchUp = jest.fn(async () => {});
+    (monitor as any).catchUp = catchUp;
+    await expect(monitor.start()).rejects.toThrow('Node is on chain pacific-1, expected atlantic-2');
+    expect(catchUp).not.toHaveBeenCalled();
+
+    // the mainnet EVM RPC default is not used for 0x addresses on another chain
+    const evmMonitor = new SeiDepositMonitor(config, '0x7b3D6e9756fe4FbdED6881065882323A8C6d9B1A');
+    (evmMonitor as any).restGet = jest.fn(async () => ({ default_node_info: { network: 'arctic-1' } }));
+    await expect((evmMonitor as any).verifyNetwork()).rejects.toThrow('No evmRpcEndpoint set for chain arctic-1');
+  });
+
+  test('reconnects with exponential backoff and gives up after maxAttempts', async () => {
+    const monitor = new SeiDepositMonitor(
+      { ...config, reconnect: { initialDelay: 100, maxDelay: 300, jitter: 0, maxAttempts: 3 } },
+      targetAddress
+    );
+    expect([1, 2, 3, 4].map((attempt) => (monitor as any).reconnectDelay(attempt))).toEqual([100, 200, 300, 300]);
+
+    const states: ConnectionStateEvent[] = [];
+    monitor.onConnectionState((event) => {
+      states.push(event);
+    });
+    (monitor as any).isMonitoring = true;
+    // every connection attempt fails right away
+    (monitor as any).startWebSocket = jest.fn(() => (monitor as any).reconnect());
+
+    jest.useFakeTimers();
+    try {
+      (monitor as any).reconnect();
+      jest.runAllTimers();
+    } finally {
+      jest.useRealTimers();
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect((monitor as any).startWebSocket).toHaveBeenCalledTimes(3);
+    expect(states).toEqual([
+      { state: 'reconnecting', attempt: 1, delay: 100 },
+      { state: 'reconnecting', attempt: 2, delay: 200 },
+      { state: 'reconnecting', attempt: 3, delay: 300 },
+      { state: 'failed', attempt: 3 }
+    ]);
+    expect(monitor.getConnectionState()).toBe('failed');
+  });
+
+  test('drops the connection when no block arrives in time', async () => {
+    const monitor = new SeiDepositMonitor({ ...config, blockTimeout: 50 }, targetAddress);
+    const states: ConnectionStateEvent[] = [];
+    monitor.onConnectionState((event) => {
+      states.push(event);
+    });
+    const ws = { terminate: jest.fn() };
+    (monitor as any).ws = ws;
+    (monitor as any).isMonitoring = true;
+    (monitor as any).startWebSocket = jest.fn();
+
+    jest.useFakeTimers();
+    try {
+      (monitor as any).resetBlockTimer(ws);
+      jest.advanceTimersByTime(40);
+      (monitor as any).resetBlockTimer(ws); // a block arrived
+      jest.advanceTimersByTime(40);
+      expect(ws.terminate).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(20);
+      expect(ws.terminate).toHaveBeenCalled();
+      monitor.stop();
+    } finally {
+      jest.useRealTimers();
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(states[0]).toEqual({ state: 'disconnected', reason: 'no block within 50ms' });
+    expect(states[1]).toMatchObject({ state: 'reconnecting', attempt: 1 });
+  });
+
+  test('subscribes per watched address and unsubscribes on removal', async () => {
+    const other = 'sei1zg69v7ys40x77y352eufp27daufrg4ncnjqz7q';
+    const monitor = new SeiDepositMonitor(config, targetAddress);
+    const sent: any[] = [];
+    (monitor as any).ws = { readyState: 1, send: (data: string) => sent.push(JSON.parse(data)) };
+
+    (monitor as any).updateSubscriptions();
+    await monitor.addAddress(other);
+    expect(sent.map((m) => [m.method, m.params.query])).toEqual([
+      ['subscribe', `tm.event='Tx' AND coin_received.receiver='${targetAddress}'`],
+      ['subscribe', `tm.event='Tx' AND coin_received.receiver='${other}'`]
+    ]);
+    expect(new Set(sent.map((m) => m.id)).size).toBe(2);
+
+    monitor.removeAddress(other);
+    expect(sent[2]).toMatchObject({ method: 'unsubscribe', id: sent[1].id, params: sent[1].params });
+
+    // after a reconnect everything still watched is subscribed again
+    sent.length = 0;
+    (monitor as any).subscriptions.clear();
+    (monitor as any).updateSubscriptions();
+    expect(sent.map((m) => m.params.query)).toEqual([`tm.event='Tx' AND coin_received.receiver='${targetAddress}'`]);
+  });
+});
+
+// minimal protobuf encoding of length-delimited fields, for tx fixtures
+const protoField = (field: number, value: string | Buffer): Buffer => {
+  const bytes = typeof value === 'string' ? Buffer.from(value) : value;
+  const length: number[] = [];
+  for (let n = bytes.length; ; n >>= 7) {
+    length.push(n > 0x7f ? (n & 0x7f) | 0x80 : n);
+    if (n <= 0x7f) break;
+  }
+  return Buffer.concat([Buffer.from([(field << 3) | 2, ...length]), bytes]);
+};
+const protoCoin = (amount: string, denom: string) => Buffer.concat([protoField(1, denom), protoField(2, amount)]);
+const encodeTx = (messages: Array<[string, Buffer]>, memo = ''): string => {
+  const body = Buffer.concat([
+    ...messages.map(([typeUrl, value]) => protoField(1, Buffer.concat([protoField(1, typeUrl), protoField(2, value)]))),
+    memo ? protoField(2, memo) : Buffer.alloc(0)
+  ]);
+  return Buffer.concat([protoField(1, body), protoField(2, Buffer.alloc(0))]).toString('base64');
+};
+
+describe('TxDecoder', () => {
+  test('decodes bank transfers and the memo from tx bytes', () => {
+    const send = Buffer.concat([protoField(1, 'sei1from'), protoField(2, 'sei1to'), protoField(3, protoCoin('100', 'usei'))]);
+    const multiSend = Buffer.concat([
+      protoField(1, Buffer.concat([protoField(1, 'sei1from'), protoField(2, protoCoin('30', 'usei'))])),
+      protoField(2, Buffer.concat([protoField(1, 'sei1a'), protoField(2, protoCoin('10', 'usei'))])),
+      protoField(2, Buffer.concat([protoField(1, 'sei1b'), protoField(2, protoCoin('20', 'usei'))]))
+    ]);
+    const raw = encodeTx(
+      [
+        ['/cosmos.bank.v1beta1.MsgSend', send],
+        ['/cosmos.bank.v1beta1.MsgMultiSend', multiSend]
+      ],
+      'invoice-42'
+    );
+
+    const tx = TxDecoder.decode(raw);
+    expect(tx.memo).toBe('invoice-42');
+    expect(tx.hash).toBe(TxDecoder.hash(raw));
+    expect(TxDecoder.bankTransfers(tx)).toEqual([
+      { messageIndex: 0, typeUrl: '/cosmos.bank.v1beta1.MsgSend', from: 'sei1from', to: 'sei1to', coins: [{ denom: 'usei', amount: 100n }] },
+      { messageIndex: 1, typeUrl: '/cosmos.bank.v1beta1.MsgMultiSend', from: 'sei1from', to: 'sei1a', coins: [{ denom: 'usei', amount: 10n }] },
+      { messageIndex: 1, typeUrl: '/cosmos.bank.v1beta1.MsgMultiSend', from: 'sei1from', to: 'sei1b', coins: [{ denom: 'usei', amount: 20n }] }
+    ]);
+  });
+});
+
+describe('CoinUtils', () => {
+  test('parses multi-denom coin strings', () => {
+    expect(CoinUtils.parseCoins('5usei,3ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2')).toEqual([
+      { denom: 'usei', amount: 5n },
+      { denom: 'ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2', amount: 3n }
+    ]);
+    expect(CoinUtils.parseCoins('')).toEqual([]);
+    expect(() => CoinUtils.parseCoins('usei')).toThrow();
+  });
+
+  test('formats base units without floating point', () => {
+    expect(CoinUtils.formatUnits(1500000n, 6)).toBe('1.5');
+    expect(CoinUtils.formatUnits(123456789012345678901n, 18)).toBe('123.456789012345678901');
+    expect(CoinUtils.formatUnits(1000000n, 6)).toBe('1');
+    expect(CoinUtils.formatUnits(42n, 0)).toBe('42');
+  });
+
+  test('resolves display amounts from cached denom metadata', async () => {
+    const fetchJson = jest.fn(async () => ({
+      metadatas: [
+        {
+          base: 'uatom',
+          display: 'atom',
+          symbol: 'ATOM',
+          denom_units: [
+            { denom: 'uatom', exponent: 0 },
+            { denom: 'atom', exponent: 6 }
+          ]
+        }
+      ]
+    }));
+    const cache = new DenomMetadataCache(fetchJson as any);
+
+    const coins = await cache.withDisplay([
+      { denom: 'uatom', amount: 2500000n },
+      { denom: 'usei', amount: 1n },
+      { denom: 'unknown', amount: 7n }
+    ]);
+    await cache.get('uatom');
+
+    expect(fetchJson).toHaveBeenCalledTimes(1);
+    expect(coins[0].display).toEqual({ denom: 'ATOM', decimals: 6, amount: '2.5' });
+    expect(coins[1].display).toEqual({ denom: 'SEI', decimals: 6, amount: '0.000001' });
+    expect(coins[2].display).toBeUndefined();
+  });
+});
+
+describe('Address resolvers', () => {
+  const evmAddress = '0x7b3D6e9756fe4FbdED6881065882323A8C6d9B1A';
+
+  test('chains resolvers and reports every failure', async () => {
+    const failing = { resolve: async (_evmAddress: string): Promise<string | null> => Promise.reject(new Error('down')) };
+    const empty = new StaticResolver({});
+    const table = new StaticResolver({ [evmAddress.toLowerCase()]: 'sei1linked' });
+
+    expect(await new ChainedResolver([failing, empty, table]).resolve(evmAddress)).toBe('sei1linked');
+    expect(await new ChainedResolver([empty]).resolve(evmAddress)).toBeNull();
+    await expect(new ChainedResolver([failing, empty]).resolve(evmAddress)).rejects.toThrow(AddressResolutionError);
+  });
+
+  test('caches answers until their TTL expires', async () => {
+    const inner = { resolve: jest.fn(async (_evmAddress: string): Promise<string | null> => 'sei1linked') };
+    const resolver = new CachingResolver(inner, { ttlMs: 60000 });
+
+    expect(await resolver.resolve(evmAddress)).toBe('sei1linked');
+    expect(await resolver.resolve(evmAddress.toLowerCase())).toBe('sei1linked');
+    expect(inner.resolve).toHaveBeenCalledTimes(1);
+
+    const expiring = new CachingResolver(inner, { ttlMs: 0 });
+    await expiring.resolve(evmAddress);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await expiring.resolve(evmAddress);
+    expect(inner.resolve).toHaveBeenCalledTimes(3);
+  });
+
+  test('resolves through the address precompile', async () => {
+    const rpc = new EvmRpcClient('http://localhost:0');
+    const encoded =
+      '0x' +
+      (32).toString(16).padStart(64, '0') +
+      (10).toString(16).padStart(64, '0') +
+      Buffer.from('sei1linked').toString('hex').padEnd(64, '0');
+    const call = jest.fn(async (_method: string, _params: unknown[]): Promise<unknown> => encoded);
+    (rpc as any).call = call;
+
+    expect(await new PrecompileResolver(rpc).resolve(evmAddress)).toBe('sei1linked');
+    expect(call.mock.calls[0][1]).toEqual([
+      { to: '0x0000000000000000000000000000000000001004', data: '0x0c3c20ed0000000000000000000000007b3d6e9756fe4fbded6881065882323a8c6d9b1a' },
+      'latest'
+    ]);
+
+    call.mockImplementationOnce(async () => Promise.reject(new Error('eth_call error: execution reverted')));
+    expect(await new PrecompileResolver(rpc).resolve(evmAddress)).toBeNull();
+  });
+});
+
+describe('EndpointPool', () => {
+  test('flags endpoints behind the highest height and ranks them last', async () => {
+    const pool = new EndpointPool(['https://a', 'https://b', 'https://c'], { maxLag: 5 });
+    const heights: Record<string, number> = { 'https://a': 100, 'https://b': 110, 'https://c': 108 };
+    await pool.check(async (url) => heights[url]);
+
+    expect(pool.getHealth().filter((h) => h.lagging).map((h) => h.url)).toEqual(['https://a']);
+    expect(pool.ranked()[2]).toBe('https://a');
+  });
+
+  test('fails over to the next endpoint and remembers the failure', async () => {
+    const pool = new EndpointPool(['https://a', 'https://b']);
+    const tried: string[] = [];
+    const result = await pool.request(async (url) => {
+      tried.push(url);
+      if (url === 'https://a') throw new Error('down');
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(tried).toEqual(['https://a', 'https://b']);
+    expect(pool.current()).toBe('https://b');
+    expect(pool.getHealth()[0].lastError).toBe('down');
+
+    await expect(pool.request(async () => Promise.reject(new Error('all down')))).rejects.toThrow('all down');
+  });
+});
+
+describe('FileCheckpointStore', () => {
+  test('persists heights across instances', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+    const filePath = path.join(dir, 'checkpoints.json');
+    try {
+      const store = new FileCheckpointStore(filePath);
+      expect(await store.get('sei1abc')).toBeUndefined();
+      await store.set('sei1abc', 42);
+
+      const reopened = new FileCheckpointStore(filePath);
+      expect(await reopened.get('sei1abc')).toBe(42);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
 });
 
 describe('AddressUtils', () => {
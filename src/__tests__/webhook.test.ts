@@ -0,0 +1,128 @@
+// src/__tests__/webhook.test.ts
+import { expect, describe, test, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebhookNotifier, Logger, LogLevel } from '../index.js';
+import type { DepositEvent } from '../types.js';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookNotifier', () => {
+  const secret = 'test-secret';
+  const logger = new Logger({ level: LogLevel.ERROR });
+  let server: http.Server;
+  let url: string;
+  let received: Received[];
+  // status codes to answer with, in order; 200 once exhausted
+  let responses: number[];
+
+  const event: DepositEvent = {
+    type: 'direct',
+    status: 'success',
+    stage: 'final',
+    confirmations: 1,
+    requiredConfirmations: 1,
+    source: 'ws',
+    address: 'sei1qv45ek49hqupx63u8lme9vcylarj3qe7f7cy99',
+    inputAddress: 'sei1qv45ek49hqupx63u8lme9vcylarj3qe7f7cy99',
+    transaction: {
+      hash: 'ABC123',
+      height: '100',
+      type: '/cosmos.bank.v1beta1.MsgSend',
+      amount: '1500000usei',
+      coins: [{ denom: 'usei', amount: 1500000n }],
+      receiver: 'sei1qv45ek49hqupx63u8lme9vcylarj3qe7f7cy99',
+      gasUsed: '1',
+      gasWanted: '1',
+      timestamp: '2024-02-09T12:00:00Z'
+    }
+  };
+
+  beforeEach(async () => {
+    received = [];
+    responses = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('posts a signed, versioned payload', async () => {
+    const notifier = new WebhookNotifier({ url, secret, logger });
+    expect(await notifier.deliver(event)).toBe(true);
+
+    expect(received.length).toBe(1);
+    const { headers, body } = received[0];
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({ version: 1, id: 'ABC123:0:0:final' });
+    expect(payload.event.transaction.coins).toEqual([{ denom: 'usei', amount: '1500000' }]);
+    expect(headers['idempotency-key']).toBe('ABC123:0:0:final');
+    expect(WebhookNotifier.verify(secret, body, headers['x-webhook-signature'] as string)).toBe(true);
+    expect(WebhookNotifier.verify('wrong-secret', body, headers['x-webhook-signature'] as string)).toBe(false);
+  });
+
+  test('retries failed deliveries with the same idempotency key', async () => {
+    responses = [500, 503];
+    const notifier = new WebhookNotifier({ url, secret, logger, initialDelay: 1 });
+
+    expect(await notifier.deliver(event)).toBe(true);
+    expect(received.length).toBe(3);
+    expect(new Set(received.map((r) => r.headers['idempotency-key']))).toEqual(new Set(['ABC123:0:0:final']));
+  });
+
+  test('dead-letters deliveries that keep failing and replays them', async () => {
+    const deadLetterFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-')), 'dead.jsonl');
+    responses = [500, 500, 400];
+    const notifier = new WebhookNotifier({ url, secret, logger, initialDelay: 1, maxAttempts: 2, deadLetterFile });
+
+    notifier.enqueue(event);
+    notifier.enqueue({ ...event, transaction: { ...event.transaction, hash: 'DEF456' } });
+    await notifier.flush();
+
+    // the first one ran out of attempts, the second was refused outright (4xx)
+    expect(received.length).toBe(3);
+    const letters = (await fs.readFile(deadLetterFile, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(letters.map((l) => [l.id, l.attempts])).toEqual([
+      ['ABC123:0:0:final', 2],
+      ['DEF456:0:0:final', 1]
+    ]);
+
+    expect(await notifier.replayDeadLetters()).toEqual({ delivered: 2, failed: 0 });
+    expect(received.slice(3).map((r) => JSON.parse(r.body).id)).toEqual(['ABC123:0:0:final', 'DEF456:0:0:final']);
+    await expect(fs.readFile(deadLetterFile, 'utf8')).rejects.toThrow();
+  });
+
+  test('resumes an interrupted replay and re-queues letters that fail again', async () => {
+    const deadLetterFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-')), 'dead.jsonl');
+    const letter = (id: string) =>
+      JSON.stringify({ id, body: JSON.stringify({ id }), error: 'boom', attempts: 1, failedAt: '2024-02-09T12:00:00Z' });
+    // left over by a replay that crashed, plus a letter dead-lettered since
+    await fs.writeFile(`${deadLetterFile}.replay`, letter('A') + '\n' + letter('B') + '\n');
+    await fs.writeFile(deadLetterFile, letter('C') + '\n');
+    responses = [200, 400, 200];
+    const notifier = new WebhookNotifier({ url, secret, logger, initialDelay: 1, maxAttempts: 2, deadLetterFile });
+
+    expect(await notifier.replayDeadLetters()).toEqual({ delivered: 2, failed: 1 });
+    expect(received.map((r) => r.headers['idempotency-key'])).toEqual(['A', 'B', 'C']);
+    const letters = (await fs.readFile(deadLetterFile, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(letters.map((l) => l.id)).toEqual(['B']);
+    await expect(fs.readFile(`${deadLetterFile}.replay`, 'utf8')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,114 @@
+// src/callbacks.ts
+
+import { Logger } from './logger';
+import { CallbackErrorCallback, CallbackOptions, DepositCallback, DepositEvent } from './types';
+
+/**
+ * The error a handler fails with when it does not settle within the callback timeout
+ */
+export class CallbackTimeoutError extends Error {
+  constructor(public readonly timeout: number) {
+    super(`Deposit callback timed out after ${timeout}ms`);
+    this.name = 'CallbackTimeoutError';
+  }
+}
+
+/**
+ * Runs deposit handlers with timeouts, retries and the configured concurrency.
+ * Handlers that keep failing are reported to the `onError` callbacks; they never reject `run()`.
+ */
+export class CallbackRunner {
+  private errorCallbacks: Set<CallbackErrorCallback> = new Set();
+  // tail of each ordered queue: one for 'serial', one per address for 'per-address'
+  private queues: Map<string, Promise<void>> = new Map();
+  private running: Set<Promise<void>> = new Set();
+
+  constructor(private logger: Logger, private options: CallbackOptions = {}) {}
+
+  public onError(callback: CallbackErrorCallback): void {
+    this.errorCallbacks.add(callback);
+  }
+
+  /**
+   * Run the handlers of an event. Resolves once every handler has succeeded or run out of attempts.
+   */
+  public run(event: DepositEvent, handlers: DepositCallback[]): Promise<void> {
+    const concurrency = this.options.concurrency ?? 'serial';
+    let done: Promise<void>;
+    if (concurrency === 'parallel') {
+      done = Promise.all(handlers.map((handler) => this.attempt(event, handler))).then(() => undefined);
+    } else {
+      const key = concurrency === 'per-address' ? event.address : '';
+      done = (this.queues.get(key) ?? Promise.resolve()).then(async () => {
+        for (const handler of handlers) {
+          await this.attempt(event, handler);
+        }
+      });
+      this.queues.set(key, done);
+      done.then(() => {
+        if (this.queues.get(key) === done) this.queues.delete(key);
+      });
+    }
+
+    this.running.add(done);
+    done.then(() => this.running.delete(done));
+    return done;
+  }
+
+  /**
+   * Wait for every handler started so far to settle
+   */
+  public async idle(): Promise<void> {
+    while (this.running.size) {
+      await Promise.all([...this.running]);
+    }
+  }
+
+  private async attempt(event: DepositEvent, handler: DepositCallback): Promise<void> {
+    const attempts = (this.options.retries ?? 0) + 1;
+    const retryDelay = this.options.retryDelay ?? 1000;
+    let error: unknown;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        await this.withTimeout(handler, event);
+        return;
+      } catch (e) {
+        error = e;
+        if (attempt < attempts) {
+          const delay = retryDelay * 2 ** (attempt - 1);
+          this.logger.warn(`Deposit callback failed, retrying in ${delay}ms`, e);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    this.logger.error(`Error in deposit callback (after ${attempts} attempt(s)):`, error);
+    const failure = { event, error, attempts, timedOut: error instanceof CallbackTimeoutError };
+    for (const cb of this.errorCallbacks) {
+      try {
+        await cb(failure);
+      } catch (e) {
+        this.logger.error('Error in callback error handler:', e);
+      }
+    }
+  }
+
+  private async withTimeout(handler: DepositCallback, event: DepositEvent): Promise<void> {
+    const timeout = this.options.timeout ?? 30000;
+    if (!timeout) {
+      await handler(event);
+      return;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        Promise.resolve().then(() => handler(event)),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new CallbackTimeoutError(timeout)), timeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+// src/checkpoint.ts
+
+import { promises as fs } from 'fs';
+
+/**
+ * Records the last fully processed block height per watched address,
+ * so a restarted monitor can catch up on deposits made while it was down.
+ */
+export interface CheckpointStore {
+  get(address: string): Promise<number | undefined>;
+  set(address: string, height: number): Promise<void>;
+}
+
+/**
+ * Keeps checkpoints in memory only (lost on restart)
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private heights: Map<string, number> = new Map();
+
+  async get(address: string): Promise<number | undefined> {
+    return this.heights.get(address);
+  }
+
+  async set(address: string, height: number): Promise<void> {
+    this.heights.set(address, height);
+  }
+}
+
+/**
+ * Keeps checkpoints in a JSON file of `{ [address]: height }`
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private heights: Promise<Map<string, number>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async get(address: string): Promise<number | undefined> {
+    const heights = await this.load();
+    return heights.get(address);
+  }
+
+  async set(address: string, height: number): Promise<void> {
+    const heights = await this.load();
+    heights.set(address, height);
+    // serialize writes so a slow write never overwrites a newer one
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(() => this.flush(heights));
+    return this.writeQueue;
+  }
+
+  private load(): Promise<Map<string, number>> {
+    if (!this.heights) {
+      this.heights = this.read();
+    }
+    return this.heights;
+  }
+
+  private async read(): Promise<Map<string, number>> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const data = JSON.parse(raw) as Record<string, number>;
+      return new Map(Object.entries(data));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return new Map();
+    }
+  }
+
+  private async flush(heights: Map<string, number>): Promise<void> {
+    // write to a temp file then rename, so a crash never leaves a half-written file
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(heights), null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
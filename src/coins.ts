@@ -0,0 +1,180 @@
+// src/coins.ts
+
+import { Coin, DenomDisplay, DenomTrace } from './types';
+
+/**
+ * Denom metadata entry from /cosmos/bank/v1beta1/denoms_metadata
+ */
+interface DenomMetadata {
+  base: string;
+  display: string;
+  symbol?: string;
+  denom_units: Array<{ denom: string; exponent: number }>;
+}
+
+interface DenomsMetadataResponse {
+  metadatas?: DenomMetadata[];
+  pagination?: {
+    next_key?: string | null;
+  };
+}
+
+/**
+ * The shape of the /ibc/apps/transfer/v1/denom_traces/{hash} response
+ */
+interface DenomTraceResponse {
+  denom_trace: {
+    path: string;
+    base_denom: string;
+  };
+}
+
+/**
+ * Used when the chain has no metadata for a denom we know
+ */
+const KNOWN_DENOMS: Record<string, DenomDisplay> = {
+  usei: { denom: 'SEI', decimals: 6 }
+};
+
+export class CoinUtils {
+  /**
+   * Parse a Cosmos coin string like `5usei,3ibc/ABC...` into coins
+   */
+  static parseCoins(raw: string): Coin[] {
+    if (!raw) return [];
+    return raw.split(',').map((part) => {
+      const match = part.trim().match(/^(\d+)([a-zA-Z][a-zA-Z0-9/:._-]*)$/);
+      if (!match) {
+        throw new Error(`Invalid coin: ${part}`);
+      }
+      return { denom: match[2], amount: BigInt(match[1]) };
+    });
+  }
+
+  /**
+   * Format a base-unit amount with the given decimals, e.g. (1500000n, 6) => '1.5'.
+   * Pure bigint math, so no precision is lost.
+   */
+  static formatUnits(amount: bigint, decimals: number): string {
+    if (decimals <= 0) return amount.toString();
+    const negative = amount < 0n;
+    const abs = negative ? -amount : amount;
+    const base = 10n ** BigInt(decimals);
+    const whole = abs / base;
+    const fraction = (abs % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+}
+
+export interface DenomMetadataOptions {
+  /** how long fetched metadata is kept before it is fetched again (default 1 hour) */
+  ttlMs?: number;
+}
+
+/**
+ * Resolves display denoms and decimals through /cosmos/bank/v1beta1/denoms_metadata,
+ * caching the full metadata list between refreshes.
+ */
+export class DenomMetadataCache {
+  private metadata: Promise<Map<string, DenomDisplay>> | null = null;
+  private loadedAt: number = 0;
+  private ttlMs: number;
+
+  constructor(
+    private fetchJson: <T>(path: string) => Promise<T>,
+    options: DenomMetadataOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Display denom and decimals for a base denom, or null if unknown
+   */
+  public async get(denom: string): Promise<DenomDisplay | null> {
+    const metadata = await this.load();
+    return metadata.get(denom) ?? KNOWN_DENOMS[denom] ?? null;
+  }
+
+  /**
+   * Attach display amounts to the coins whose denom metadata is known
+   */
+  public async withDisplay(coins: Coin[]): Promise<Coin[]> {
+    return Promise.all(
+      coins.map(async (coin) => {
+        const display = await this.get(coin.denom);
+        if (!display) return coin;
+        return {
+          ...coin,
+          display: { ...display, amount: CoinUtils.formatUnits(coin.amount, display.decimals) }
+        };
+      })
+    );
+  }
+
+  private load(): Promise<Map<string, DenomDisplay>> {
+    if (!this.metadata || Date.now() - this.loadedAt > this.ttlMs) {
+      this.loadedAt = Date.now();
+      const loading = this.fetchAll();
+      // don't cache a failed load
+      loading.catch(() => {
+        if (this.metadata === loading) this.metadata = null;
+      });
+      this.metadata = loading;
+    }
+    return this.metadata;
+  }
+
+  private async fetchAll(): Promise<Map<string, DenomDisplay>> {
+    const result = new Map<string, DenomDisplay>();
+    let nextKey: string | null | undefined;
+    do {
+      const params = new URLSearchParams({ 'pagination.limit': '200' });
+      if (nextKey) params.set('pagination.key', nextKey);
+      const data = await this.fetchJson<DenomsMetadataResponse>(
+        `/cosmos/bank/v1beta1/denoms_metadata?${params.toString()}`
+      );
+      for (const meta of data.metadatas ?? []) {
+        const unit = meta.denom_units.find((u) => u.denom === meta.display);
+        if (!unit) continue;
+        result.set(meta.base, {
+          denom: meta.symbol || meta.display.toUpperCase(),
+          decimals: unit.exponent
+        });
+      }
+      nextKey = data.pagination?.next_key;
+    } while (nextKey);
+    return result;
+  }
+}
+
+/**
+ * Resolves `ibc/<hash>` denoms through /ibc/apps/transfer/v1/denom_traces/{hash}.
+ * Traces never change for a given hash, so they are cached for the life of the process.
+ */
+export class DenomTraceCache {
+  private traces: Map<string, Promise<DenomTrace>> = new Map();
+
+  constructor(private fetchJson: <T>(path: string) => Promise<T>) {}
+
+  static isIbcDenom(denom: string): boolean {
+    return denom.startsWith('ibc/');
+  }
+
+  /**
+   * Trace for an `ibc/<hash>` denom
+   */
+  public get(denom: string): Promise<DenomTrace> {
+    const hash = denom.replace(/^ibc\//, '');
+    let trace = this.traces.get(hash);
+    if (!trace) {
+      trace = this.fetchJson<DenomTraceResponse>(`/ibc/apps/transfer/v1/denom_traces/${hash}`).then((data) => ({
+        path: data.denom_trace.path,
+        baseDenom: data.denom_trace.base_denom
+      }));
+      // don't cache a failed lookup
+      trace.catch(() => this.traces.delete(hash));
+      this.traces.set(hash, trace);
+    }
+    return trace;
+  }
+}
@@ -0,0 +1,93 @@
+// src/cw20.ts
+
+import { TokenInfo } from './types';
+
+/**
+ * The shape of the /cosmwasm/wasm/v1/contract/{addr}/smart/{query} response for `token_info`
+ */
+interface TokenInfoResponse {
+  data: {
+    name: string;
+    symbol: string;
+    decimals: number;
+    total_supply: string;
+  };
+}
+
+interface WasmEvent {
+  type: string;
+  attributes: Array<{ key: string; value: string }>;
+}
+
+/**
+ * A CW20 transfer found in `wasm` events
+ */
+export interface Cw20Transfer {
+  contract: string;
+  action: string; // 'transfer' | 'send' | 'transfer_from' | 'send_from'
+  from?: string;
+  recipient: string;
+  amount: string;
+}
+
+const TRANSFER_ACTIONS = new Set(['transfer', 'send', 'transfer_from', 'send_from']);
+
+export class Cw20Utils {
+  /**
+   * Extract CW20 transfers from `wasm` events.
+   * One event may hold the attributes of several contract calls, each starting with `_contract_address`.
+   */
+  static parseTransfers(events: WasmEvent[]): Cw20Transfer[] {
+    const transfers: Cw20Transfer[] = [];
+    for (const event of events) {
+      if (event.type !== 'wasm') continue;
+
+      let call: Record<string, string> = {};
+      const flush = () => {
+        const recipient = call.recipient ?? call.to;
+        if (call._contract_address && TRANSFER_ACTIONS.has(call.action) && recipient && /^\d+$/.test(call.amount ?? '')) {
+          transfers.push({
+            contract: call._contract_address,
+            action: call.action,
+            from: call.from ?? call.owner,
+            recipient,
+            amount: call.amount
+          });
+        }
+      };
+
+      for (const { key, value } of event.attributes) {
+        if (key === '_contract_address' && call._contract_address) {
+          flush();
+          call = {};
+        }
+        call[key] = value;
+      }
+      flush();
+    }
+    return transfers;
+  }
+}
+
+/**
+ * Fetches and caches CW20 token info through the contract's `token_info` smart query
+ */
+export class Cw20TokenCache {
+  private tokens: Map<string, Promise<TokenInfo>> = new Map();
+
+  constructor(private fetchJson: <T>(path: string) => Promise<T>) {}
+
+  public get(contract: string): Promise<TokenInfo> {
+    let info = this.tokens.get(contract);
+    if (!info) {
+      const query = Buffer.from(JSON.stringify({ token_info: {} })).toString('base64');
+      info = this.fetchJson<TokenInfoResponse>(`/cosmwasm/wasm/v1/contract/${contract}/smart/${encodeURIComponent(query)}`).then(
+        ({ data }) => ({ symbol: data.symbol, name: data.name, decimals: data.decimals })
+      );
+      // don't cache a failed lookup
+      info.catch(() => this.tokens.delete(contract));
+      this.tokens.set(contract, info);
+    }
+    return info;
+  }
+}
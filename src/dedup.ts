@@ -0,0 +1,88 @@
+// src/dedup.ts
+
+import { DepositSource, TransactionDetails } from './types';
+
+/**
+ * Persistent backing store for deduplication keys.
+ * Implement this to keep deduplication across process restarts (e.g. Redis, a DB table).
+ */
+export interface DedupStore {
+  has(key: string): Promise<boolean>;
+  add(key: string): Promise<void>;
+}
+
+export interface DedupOptions {
+  /** max number of keys kept in memory, oldest are evicted first (default 10000) */
+  windowSize?: number;
+  store?: DedupStore;
+}
+
+/**
+ * Deduplicates deposits seen by more than one source (WS + REST).
+ *
+ * A deposit is identified by tx hash, message index and the index of the
+ * coin_received (receiver, amount) pair within that message. Withdrawals get an `:out` suffix.
+ */
+export class DepositDeduplicator {
+  private seen: Map<string, DepositSource> = new Map();
+  private windowSize: number;
+  private store?: DedupStore;
+
+  constructor(options: DedupOptions = {}) {
+    this.windowSize = options.windowSize ?? 10000;
+    this.store = options.store;
+  }
+
+  static keyFor(detail: TransactionDetails): string {
+    const key = `${detail.hash}:${detail.messageIndex ?? 0}:${detail.eventIndex ?? 0}`;
+    return detail.direction === 'out' ? `${key}:out` : key;
+  }
+
+  /**
+   * Claim a deposit for the given source.
+   * Resolves to true only for the first sighting, false for every duplicate.
+   * With `persist` false the key is only kept in memory until `persist` is called,
+   * so a deposit that never got final is seen again after a restart.
+   */
+  public async claim(detail: TransactionDetails, source: DepositSource, persist: boolean = true): Promise<boolean> {
+    const key = DepositDeduplicator.keyFor(detail);
+
+    // mark synchronously so concurrent WS/REST handlers can't both win
+    if (this.seen.has(key)) {
+      return false;
+    }
+    this.seen.set(key, source);
+    this.trim();
+
+    if (this.store) {
+      try {
+        if (await this.store.has(key)) {
+          return false;
+        }
+        if (persist) {
+          await this.store.add(key);
+        }
+      } catch (error) {
+        // unclaimed: the deposit must be claimable again when the range is re-fetched
+        this.seen.delete(key);
+        throw error;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Record a deposit claimed without `persist` in the store
+   */
+  public async persist(detail: TransactionDetails): Promise<void> {
+    await this.store?.add(DepositDeduplicator.keyFor(detail));
+  }
+
+  private trim(): void {
+    while (this.seen.size > this.windowSize) {
+      const oldest = this.seen.keys().next().value;
+      if (oldest === undefined) break;
+      this.seen.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+// src/endpoints.ts
+
+/**
+ * Health of one endpoint in a pool, as seen by the last checks and requests
+ */
+export interface EndpointHealth {
+  url: string;
+  height: number | null;    // latest height reported by the last successful check
+  latencyMs: number | null; // moving average of request latency
+  errorRate: number;        // moving average of failures, 0 (never fails) to 1 (always fails)
+  lagging: boolean;         // more than `maxLag` blocks behind the pool's highest height
+  lastError?: string;
+}
+
+export interface EndpointPoolOptions {
+  /** blocks an endpoint may fall behind the pool's highest height before it is flagged lagging (default 20) */
+  maxLag?: number;
+}
+
+// weight of the newest sample in the latency / error rate moving averages
+const SMOOTHING = 0.3;
+
+/**
+ * A set of interchangeable endpoints (WS, REST or EVM RPC), ranked by health.
+ * Requests go to the healthiest endpoint first and fail over to the next ones.
+ */
+export class EndpointPool {
+  private health: Map<string, EndpointHealth>;
+  private maxLag: number;
+
+  constructor(urls: string | string[], options: EndpointPoolOptions = {}) {
+    const list = Array.isArray(urls) ? urls : [urls];
+    if (!list.length) {
+      throw new Error('EndpointPool needs at least one endpoint');
+    }
+    this.health = new Map(list.map((url) => [url, { url, height: null, latencyMs: null, errorRate: 0, lagging: false }]));
+    this.maxLag = options.maxLag ?? 20;
+  }
+
+  get size(): number {
+    return this.health.size;
+  }
+
+  /**
+   * The healthiest endpoint
+   */
+  public current(): string {
+    return this.ranked()[0];
+  }
+
+  /**
+   * Every endpoint, healthiest first
+   */
+  public ranked(): string[] {
+    return [...this.health.values()].sort((a, b) => this.score(a) - this.score(b)).map((h) => h.url);
+  }
+
+  public getHealth(): EndpointHealth[] {
+    return [...this.health.values()].map((h) => ({ ...h }));
+  }
+
+  public recordSuccess(url: string, latencyMs: number): void {
+    const health = this.health.get(url);
+    if (!health) return;
+    health.latencyMs = health.latencyMs === null ? latencyMs : health.latencyMs + SMOOTHING * (latencyMs - health.latencyMs);
+    health.errorRate *= 1 - SMOOTHING;
+  }
+
+  public recordFailure(url: string, error: unknown): void {
+    const health = this.health.get(url);
+    if (!health) return;
+    health.errorRate += SMOOTHING * (1 - health.errorRate);
+    health.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Record the latest height an endpoint reported and re-flag the endpoints behind the pool's highest height
+   */
+  public recordHeight(url: string, height: number): void {
+    const health = this.health.get(url);
+    if (!health) return;
+    health.height = height;
+    const highest = Math.max(...[...this.health.values()].map((h) => h.height ?? 0));
+    for (const h of this.health.values()) {
+      h.lagging = h.height !== null && highest - h.height > this.maxLag;
+    }
+  }
+
+  /**
+   * Probe every endpoint for its latest height, recording latency, height and failures
+   */
+  public async check(probe: (url: string) => Promise<number>): Promise<void> {
+    await Promise.all(
+      [...this.health.keys()].map(async (url) => {
+        const startedAt = Date.now();
+        try {
+          const height = await probe(url);
+          this.recordSuccess(url, Date.now() - startedAt);
+          this.recordHeight(url, height);
+        } catch (error) {
+          this.recordFailure(url, error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Run a request against the healthiest endpoint, failing over to the next ones until one succeeds
+   */
+  public async request<T>(fn: (url: string) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (const url of this.ranked()) {
+      const startedAt = Date.now();
+      try {
+        const result = await fn(url);
+        this.recordSuccess(url, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        this.recordFailure(url, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Lower is better: lagging endpoints rank last, then by error rate, then by latency
+   */
+  private score(health: EndpointHealth): number {
+    return (health.lagging ? 1e9 : 0) + health.errorRate * 1e6 + (health.latencyMs ?? 0);
+  }
+}
@@ -0,0 +1,204 @@
+// src/erc20.ts
+
+import WebSocket from 'ws';
+import { EvmRpcClient } from './evm';
+import { Logger } from './logger';
+import { TokenInfo } from './types';
+
+/**
+ * keccak256('Transfer(address,address,uint256)')
+ */
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+// function selectors
+const SYMBOL_SELECTOR = '0x95d89b41';
+const NAME_SELECTOR = '0x06fdde03';
+const DECIMALS_SELECTOR = '0x313ce567';
+
+/**
+ * A log entry as returned by eth_getLogs / eth_subscribe('logs')
+ */
+export interface EvmLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+  removed?: boolean;
+}
+
+export class Erc20Utils {
+  /**
+   * Left-pad a 0x address to a 32 byte topic
+   */
+  static toTopic(address: string): string {
+    return `0x${address.replace(/^0x/, '').toLowerCase().padStart(64, '0')}`;
+  }
+
+  /**
+   * Extract the 0x address from a 32 byte topic
+   */
+  static fromTopic(topic: string): string {
+    return `0x${topic.replace(/^0x/, '').slice(-40)}`;
+  }
+
+  /**
+   * Whether a `Transfer` log is an ERC-20 one: ERC-721 shares the topic but indexes the token id
+   * (4 topics) and has no data, where ERC-20 has 3 topics and the amount as 32 bytes of data
+   */
+  static isErc20Transfer(log: EvmLog): boolean {
+    return log.topics.length === 3 && /^0x[0-9a-fA-F]{64}$/.test(log.data);
+  }
+
+  /**
+   * Decode an ABI encoded `string` return value (or a `bytes32` one, used by some older tokens)
+   */
+  static decodeString(hex: string): string {
+    const data = hex.replace(/^0x/, '');
+    if (data.length === 64) {
+      return Buffer.from(data, 'hex').toString('utf8').replace(/\0+$/, '');
+    }
+    const offset = parseInt(data.slice(0, 64), 16) * 2;
+    const length = parseInt(data.slice(offset, offset + 64), 16);
+    return Buffer.from(data.slice(offset + 64, offset + 64 + length * 2), 'hex').toString('utf8');
+  }
+}
+
+/**
+ * Fetches and caches ERC-20 token info (name, symbol, decimals) with eth_call
+ */
+export class Erc20TokenCache {
+  private tokens: Map<string, Promise<TokenInfo>> = new Map();
+
+  constructor(private rpc: EvmRpcClient) {}
+
+  public get(contract: string): Promise<TokenInfo> {
+    const key = contract.toLowerCase();
+    let info = this.tokens.get(key);
+    if (!info) {
+      info = this.fetch(key);
+      // don't cache a failed lookup
+      info.catch(() => this.tokens.delete(key));
+      this.tokens.set(key, info);
+    }
+    return info;
+  }
+
+  private async fetch(contract: string): Promise<TokenInfo> {
+    const call = (data: string) => this.rpc.call<string>('eth_call', [{ to: contract, data }, 'latest']);
+    const [symbol, name, decimals] = await Promise.all([
+      call(SYMBOL_SELECTOR),
+      call(NAME_SELECTOR).catch(() => null), // name() is optional in ERC-20
+      call(DECIMALS_SELECTOR)
+    ]);
+    return {
+      symbol: Erc20Utils.decodeString(symbol),
+      name: name ? Erc20Utils.decodeString(name) : undefined,
+      decimals: parseInt(decimals, 16)
+    };
+  }
+}
+
+/**
+ * Live `Transfer` logs to a set of 0x addresses through eth_subscribe.
+ * Re-subscribes whenever the address set changes or the socket reconnects.
+ */
+export class Erc20LogSubscription {
+  private ws: WebSocket | null = null;
+  private active: boolean = false;
+  private addresses: string[] = [];
+  private subscriptionId: string | null = null;
+  private pendingRequestId: number | null = null;
+  private nextId = 1;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+
+  constructor(
+    private endpoint: string,
+    private logger: Logger,
+    private onLog: (log: EvmLog) => Promise<void>
+  ) {}
+
+  public start(addresses: string[]): void {
+    this.active = true;
+    this.addresses = addresses;
+    this.connect();
+  }
+
+  public update(addresses: string[]): void {
+    this.addresses = addresses;
+    this.subscribe();
+  }
+
+  public stop(): void {
+    this.active = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  private connect(): void {
+    this.logger.debug(`Connecting to EVM WS => ${this.endpoint}`);
+    this.subscriptionId = null;
+    this.ws = new WebSocket(this.endpoint);
+
+    this.ws.on('open', () => {
+      this.logger.info('EVM WebSocket connected');
+      this.subscribe();
+    });
+
+    this.ws.on('message', async (data: WebSocket.Data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.id !== undefined && message.id === this.pendingRequestId) {
+          if (message.error) {
+            this.logger.error('eth_subscribe error', message.error);
+          } else {
+            this.subscriptionId = message.result;
+          }
+          this.pendingRequestId = null;
+        } else if (message.method === 'eth_subscription' && message.params?.subscription === this.subscriptionId) {
+          await this.onLog(message.params.result as EvmLog);
+        }
+      } catch (err) {
+        this.logger.error('Error processing EVM WS message:', err);
+      }
+    });
+
+    this.ws.on('error', (err: Error) => {
+      this.logger.error('EVM WebSocket error:', err);
+    });
+
+    this.ws.on('close', () => {
+      if (!this.active) return;
+      this.logger.warn('EVM WebSocket closed, reconnecting...');
+      this.reconnectTimeout = setTimeout(() => this.active && this.connect(), 5000);
+    });
+  }
+
+  private subscribe(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    if (this.subscriptionId) {
+      this.send('eth_unsubscribe', [this.subscriptionId]);
+      this.subscriptionId = null;
+    }
+    if (!this.addresses.length) return;
+
+    const filter = {
+      topics: [TRANSFER_TOPIC, null, this.addresses.map((a) => Erc20Utils.toTopic(a))]
+    };
+    this.pendingRequestId = this.send('eth_subscribe', ['logs', filter]);
+  }
+
+  private send(method: string, params: unknown[]): number {
+    const id = this.nextId++;
+    this.ws?.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+    return id;
+  }
+}
@@ -0,0 +1,52 @@
+// src/evm.ts
+
+import fetch from 'node-fetch';
+import { EndpointPool } from './endpoints';
+import { JsonRpcResponse } from './types';
+
+/**
+ * Minimal EVM JSON-RPC client, failing over between the endpoints of a pool
+ */
+export class EvmRpcClient {
+  private nextId = 1;
+  public readonly pool: EndpointPool;
+
+  constructor(endpoints: string | string[] | EndpointPool) {
+    this.pool = endpoints instanceof EndpointPool ? endpoints : new EndpointPool(endpoints);
+  }
+
+  /**
+   * The endpoint requests currently go to first
+   */
+  get endpoint(): string {
+    return this.pool.current();
+  }
+
+  /**
+   * Call a JSON-RPC method, throwing on transport or RPC errors
+   */
+  public async call<T>(method: string, params: unknown[]): Promise<T> {
+    const body = {
+      jsonrpc: '2.0',
+      id: this.nextId++,
+      method,
+      params
+    };
+    // RPC errors are answers, not endpoint failures => only transport errors fail over
+    const data = await this.pool.request(async (endpoint) => {
+      const resp = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!resp.ok) {
+        throw new Error(`${method} failed (${resp.status}) => ${endpoint}`);
+      }
+      return (await resp.json()) as JsonRpcResponse<T>;
+    });
+    if (data.error) {
+      throw new Error(`${method} error: ${data.error.message}`);
+    }
+    return data.result as T;
+  }
+}
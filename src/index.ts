@@ -3,4 +3,77 @@
 export { SeiDepositMonitor } from './monitor';
 export { AddressUtils } from './address';
 export { Logger, LogLevel } from './logger';
-export type { MonitorConfig, DepositEvent, TransactionDetails } from './types';
+export { DepositDeduplicator } from './dedup';
+export type { DedupStore, DedupOptions } from './dedup';
+export { MemoryCheckpointStore, FileCheckpointStore } from './checkpoint';
+export type { CheckpointStore } from './checkpoint';
+export { CallbackRunner, CallbackTimeoutError } from './callbacks';
+export { DepositStream } from './stream';
+export type { DepositStreamOptions } from './stream';
+export { CoinUtils, DenomMetadataCache, DenomTraceCache } from './coins';
+export type { DenomMetadataOptions } from './coins';
+export { EvmRpcClient } from './evm';
+export { EndpointPool } from './endpoints';
+export type { EndpointHealth, EndpointPoolOptions } from './endpoints';
+export { SEI_NETWORKS } from './networks';
+export type { SeiNetworkName } from './networks';
+export { MemoryMemoRegistry } from './memo';
+export type { MemoRegistry } from './memo';
+export { TxDecoder } from './tx';
+export { WebhookNotifier, WEBHOOK_PAYLOAD_VERSION } from './webhook';
+export type { WebhookOptions, WebhookPayload, DeadLetter } from './webhook';
+export type { DecodedTx, DecodedMessage, BankTransfer } from './tx';
+export { Erc20Utils, Erc20TokenCache, TRANSFER_TOPIC } from './erc20';
+export type { EvmLog } from './erc20';
+export { Cw20Utils, Cw20TokenCache } from './cw20';
+export type { Cw20Transfer } from './cw20';
+export {
+  AddressResolutionError,
+  CachingResolver,
+  ChainedResolver,
+  PrecompileResolver,
+  StaticResolver,
+  WalletServiceResolver,
+  ADDR_PRECOMPILE
+} from './resolver';
+export type { AddressResolver, CachingResolverOptions } from './resolver';
+export type {
+  MonitorConfig,
+  NetworkConfig,
+  NetworkPreset,
+  DepositEvent,
+  DepositStage,
+  ConfirmationPolicy,
+  ConfirmationThreshold,
+  DepositSource,
+  TransferDirection,
+  WithdrawalEvent,
+  BalanceChange,
+  UnexplainedBalanceChangeEvent,
+  MemoRoutingOptions,
+  UnattributedReason,
+  TransactionDetails,
+  Coin,
+  DenomDisplay,
+  DenomTrace,
+  IbcTransferInfo,
+  Erc20TransferInfo,
+  Cw20TransferInfo,
+  TokenInfo,
+  DepositType,
+  WatchedAddress,
+  AddressKind,
+  ResolvedAddress,
+  AddressLinkedEvent,
+  ConnectionState,
+  ConnectionStateEvent,
+  ReconnectOptions,
+  CallbackOptions,
+  CallbackConcurrency,
+  CallbackErrorEvent,
+  MonitorEvents,
+  PollErrorEvent,
+  BackfillOptions,
+  DateBackfillOptions,
+  BackfillProgress
+} from './types';
@@ -43,7 +43,8 @@ export class Logger {
           if (data instanceof Error) {
               parts.push(`\n${data.stack || data.message}`);
           } else if (typeof data === 'object') {
-              parts.push('\n' + JSON.stringify(data, null, 2));
+              // bigint isn't JSON serializable => print it as a string
+              parts.push('\n' + JSON.stringify(data, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2));
           } else {
               parts.push(String(data));
           }
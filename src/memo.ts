@@ -0,0 +1,39 @@
+// src/memo.ts
+
+/**
+ * Maps the memos expected on a shared deposit address to the accounts they identify.
+ * Implement this on top of your own user table, or use MemoryMemoRegistry.
+ */
+export interface MemoRegistry {
+  /**
+   * The account a memo belongs to on the given deposit address, or undefined if the memo is unknown
+   */
+  lookup(address: string, memo: string): Promise<string | undefined>;
+}
+
+/**
+ * Keeps the expected memos in memory
+ */
+export class MemoryMemoRegistry implements MemoRegistry {
+  private memos: Map<string, Map<string, string>> = new Map();
+
+  /**
+   * Expect `memo` on deposits to `address`, attributing them to `account`
+   */
+  public register(address: string, memo: string, account: string): void {
+    let memos = this.memos.get(address);
+    if (!memos) {
+      memos = new Map();
+      this.memos.set(address, memos);
+    }
+    memos.set(memo.trim(), account);
+  }
+
+  public unregister(address: string, memo: string): void {
+    this.memos.get(address)?.delete(memo.trim());
+  }
+
+  async lookup(address: string, memo: string): Promise<string | undefined> {
+    return this.memos.get(address)?.get(memo.trim());
+  }
+}
@@ -1,16 +1,75 @@
 // src/monitor.ts
 
+import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import fetch from 'node-fetch';
 import {
     MonitorConfig,
     DepositCallback,
+    CaughtUpCallback,
+    CallbackErrorCallback,
+    AddressLinkedCallback,
+    AddressLinkedEvent,
+    ConnectionState,
+    ConnectionStateCallback,
+    ConnectionStateEvent,
+    ConfirmationPolicy,
+    NetworkPreset,
+    ResolvedAddress,
+    BackfillOptions,
+    DateBackfillOptions,
+    Coin,
+    DepositType,
+    IbcTransferInfo,
     DepositEvent,
+    DepositSource,
+    MonitorEvents,
+    PollErrorEvent,
     TransactionDetails,
-    JsonRpcResponse
+    UnexplainedBalanceChangeCallback,
+    UnexplainedBalanceChangeEvent,
+    BalanceChange,
+    WatchedAddress,
+    WithdrawalCallback,
+    WithdrawalEvent
   } from './types';
 import { AddressUtils } from './address';
 import { Logger, LogLevel, LogOptions } from './logger';
+import { DepositDeduplicator } from './dedup';
+import { CheckpointStore, MemoryCheckpointStore } from './checkpoint';
+import { CallbackRunner } from './callbacks';
+import { DepositStream, DepositStreamOptions } from './stream';
+import { CoinUtils, DenomMetadataCache, DenomTraceCache } from './coins';
+import { EvmRpcClient } from './evm';
+import { EndpointPool, EndpointHealth } from './endpoints';
+import { SEI_NETWORKS } from './networks';
+import { TxDecoder } from './tx';
+import { Cw20Utils, Cw20TokenCache } from './cw20';
+import {
+  AddressResolver,
+  AddressResolutionError,
+  CachingResolver,
+  ChainedResolver,
+  PrecompileResolver,
+  WalletServiceResolver
+} from './resolver';
+import { TRANSFER_TOPIC, EvmLog, Erc20Utils, Erc20TokenCache, Erc20LogSubscription } from './erc20';
+
+const IBC_RECV_PACKET = '/ibc.core.channel.v1.MsgRecvPacket';
+const EVM_TRANSACTION = '/seiprotocol.seichain.evm.MsgEVMTransaction';
+const EVM_ASSOCIATE = '/seiprotocol.seichain.evm.MsgAssociate';
+const DEFAULT_EVM_RPC = 'https://evm-rpc.sei.basementnodes.ca';
+const MAINNET_CHAIN_ID = 'pacific-1';
+const SEI_NETWORK_PRESETS: Record<string, NetworkPreset> = SEI_NETWORKS;
+const NEW_BLOCK_QUERY = "tm.event='NewBlock'";
+// how long a tx may be gone from the mempool before we look up whether it was committed or dropped
+const MEMPOOL_EVICTION_GRACE = 10000;
+const MEMPOOL_PAGE_SIZE = 100;
+const MAX_MEMPOOL_PAGES = 50;
+// upper bound on the result pages of one tx search, in case a node keeps answering with more
+const MAX_TX_PAGES = 1000;
+// CometBFT's tx_search returns at most 100 txs per page, whatever was asked for
+const MAX_TX_PAGE_SIZE = 100;
 
 /**
  * The shape of the block/latest response
@@ -23,6 +82,90 @@ interface BlockResponse {
   };
 }
 
+/**
+ * The shape of the /cosmos/base/tendermint/v1beta1/node_info response
+ */
+interface NodeInfoResponse {
+  default_node_info: {
+    network: string;
+  };
+}
+
+/**
+ * The shape of the CometBFT RPC /unconfirmed_txs response
+ */
+interface UnconfirmedTxsResponse {
+  result: {
+    n_txs?: string;
+    total?: string; // txs in the whole mempool
+    txs: string[] | null; // base64 encoded tx bytes
+  };
+}
+
+/**
+ * The shape of the /cosmos/tx/v1beta1/txs/{hash} response
+ */
+interface GetTxResponse {
+  tx_response: TxResponseItem;
+}
+
+/**
+ * Pending deposits of a tx seen in the mempool, until it is committed or dropped
+ */
+interface MempoolEntry {
+  events: DepositEvent[];
+  missingSince?: number; // when the tx was first found gone from the mempool
+}
+
+/**
+ * Balances of an address at a height, as last reconciled
+ */
+interface BalanceSnapshot {
+  height: number;
+  balances: Map<string, bigint>;
+}
+
+/**
+ * A reported transfer of a watched address, waiting to be reconciled with its balance
+ */
+interface LedgerEntry {
+  height: number;
+  hash: string;
+  coins: Coin[];
+  out: boolean;
+  fee?: string;
+}
+
+/**
+ * The shape of the /cosmos/bank/v1beta1/balances response
+ */
+interface BalancesResponse {
+  balances?: Array<{ denom: string; amount: string }>;
+}
+
+/**
+ * The shape of the CometBFT RPC /status response
+ */
+interface StatusResponse {
+  result: {
+    sync_info: {
+      latest_block_height: string;
+    };
+  };
+}
+
+/**
+ * The shape of the /cosmos/base/tendermint/v1beta1/blocks/{height} response
+ */
+interface BlockTimeResponse {
+  block: {
+    header: {
+      height: string;
+      time: string;
+    };
+  };
+}
+
 /**
  * Log events from the chain's transaction logs
  */
@@ -31,6 +174,14 @@ interface TxLogEvent {
   attributes: Array<{ key: string; value: string }>;
 }
 
+/**
+ * A live WS subscription, by query
+ */
+interface WsSubscription {
+  id: number;
+  address: string;
+}
+
 interface TxLog {
   msg_index: number;
   log: string;
@@ -43,9 +194,23 @@ interface TxLog {
 interface TxResponseItem {
   txhash: string;
   height: string;
+  code?: number; // 0 (or absent) on success
+  codespace?: string;
+  raw_log?: string;
   gas_used: string;
   gas_wanted: string;
   timestamp: string;
+  tx?: {
+    body?: {
+      memo?: string;
+    };
+    auth_info?: {
+      fee?: {
+        amount?: Array<{ denom: string; amount: string }>;
+        gas_limit?: string;
+      };
+    };
+  };
   logs?: TxLog[];
   events?: TxLogEvent[];
   /**
@@ -57,52 +222,146 @@ interface TxResponseItem {
 }
 
 /**
- * The shape of the /txs?events= response
+ * The TxResult payload pushed by a `tm.event='Tx'` WS subscription
  */
-interface TxResponse {
-  tx_responses?: TxResponseItem[];
+interface WsTxResult {
+  height: string;
+  tx?: string; // base64 encoded tx bytes
+  result?: {
+    code?: number;
+    codespace?: string;
+    log?: string;
+    gas_used?: string;
+    gas_wanted?: string;
+    events?: TxLogEvent[];
+  };
+}
+
+/**
+ * A JSON-RPC message on the WS: a subscription reply or error, or a pushed event
+ */
+interface WsMessage {
+  id?: number;
+  error?: unknown;
+  result?: {
+    query?: string;
+    data?: {
+      value?: {
+        TxResult?: WsTxResult;
+        block?: { header?: { height?: string } };
+      };
+    };
+    events?: Record<string, string[]>;
+  };
 }
 
 /**
- * associated wallet lookup - wallets.sei.basementnodes.ca/<0x> response
+ * The shape of the /txs?events= response
  */
-interface WalletsLookup {
-  original: string;
-  result: string;
+interface TxResponse {
+  tx_responses?: TxResponseItem[];
+  total?: string;
+  pagination?: {
+    next_key?: string | null;
+    total?: string;
+  };
 }
 
 /**
  * The main deposit monitor class.
  *
- * This class monitors for incoming deposits to a given address (bech32 or hex).
+ * This class monitors for incoming deposits to any number of addresses (bech32 or hex),
+ * sharing one WS connection (with filtered subscriptions per address) and one REST poller between them.
  * - If given a bech32 address, it monitors directly for `coin_received.receiver = address`.
  * - If given a hex address (0x):
  *    1) Checks if it's a smart contract => cast to bech32
  *    2) If it's an EOA with no transactions => “cast address” until first TX
  *    3) If the chain knows the final bech32 => use that
+ *
+ * Besides the `onX` callbacks, it emits the typed events of `MonitorEvents`
+ * and hands out deposits through the `deposits()` async iterator.
  */
-export class SeiDepositMonitor {
+export class SeiDepositMonitor extends EventEmitter<MonitorEvents> {
   private config: MonitorConfig;
   private ws: WebSocket | null = null;
   private callbacks: Set<DepositCallback> = new Set();
+  private unattributedCallbacks: Set<DepositCallback> = new Set();
+  private withdrawalCallbacks: Set<WithdrawalCallback> = new Set();
+  private balanceChangeCallbacks: Set<UnexplainedBalanceChangeCallback> = new Set();
+  private callbackRunner: CallbackRunner;
+  private depositStreams: Set<DepositStream> = new Set();
   private isMonitoring: boolean = false;
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private blockTimer: NodeJS.Timeout | null = null;
+  private connectionState: ConnectionState = 'disconnected';
+  private connectionStateCallbacks: Set<ConnectionStateCallback> = new Set();
   private logger: Logger;
+  private deduplicator: DepositDeduplicator;
+  private checkpointStore: CheckpointStore;
+  private denomMetadata: DenomMetadataCache;
+  private denomTraces: DenomTraceCache;
+  private evmRpc: EvmRpcClient;
+  private erc20Tokens: Erc20TokenCache;
+  private erc20Subscription: Erc20LogSubscription | null = null;
+  private cw20Tokens: Cw20TokenCache;
+  private addressResolver: AddressResolver;
+  private caughtUpCallbacks: Set<CaughtUpCallback> = new Set();
+  private addressLinkedCallbacks: Set<AddressLinkedCallback> = new Set();
+  private castRecheckTimer: NodeJS.Timeout | null = null;
+  private rechecking: Set<string> = new Set(); // cast addresses being re-resolved
+  private wsPool: EndpointPool;
+  private restPool: EndpointPool;
+  private evmPool: EndpointPool;
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  // the WS endpoint of the current connection
+  private wsEndpoint: string | null = null;
+
+  // WS subscriptions by query, each with its own request id
+  private subscriptions: Map<string, WsSubscription> = new Map();
+  private nextSubscriptionId = 1;
 
-  // original address (bech32 or 0x)
-  private targetAddress: string;
+  // last fully processed height per watched bech32 address
+  private lastHeights: Map<string, number> = new Map();
 
-  // final address wanted in coin_received => always bech32
-  private finalAddress: string;
+  // original addresses (bech32 or 0x) as given by the caller
+  private addresses: Set<string> = new Set();
 
-  constructor(config: MonitorConfig, targetAddress: string) {
-    // normalize the WebSocket endpoint
+  // final addresses wanted in coin_received => always bech32
+  private watched: Map<string, WatchedAddress> = new Map();
+
+  // highest block height seen, drives the deposit lifecycle
+  private tipHeight = 0;
+  // deposits not final yet, by deduplication key
+  private pendingDeposits: Map<string, DepositEvent> = new Map();
+  // deposits seen in the mempool, by tx hash
+  private mempoolDeposits: Map<string, MempoolEntry> = new Map();
+  // recently committed tx hashes, so a stale mempool listing does not report them pending again
+  private committedHashes: Set<string> = new Set();
+  // events whose handlers are still running, with `callbacks.holdCheckpoint`
+  private unsettledEvents: Set<DepositEvent> = new Set();
+
+  // with `reconcileBalances`: last balances per address (bech32, or lowercased 0x for EVM balances)
+  private balanceSnapshots: Map<string, BalanceSnapshot> = new Map();
+  // reported transfers not reconciled yet, per watched bech32 address
+  private balanceLedger: Map<string, LedgerEntry[]> = new Map();
+
+  constructor(config: MonitorConfig, addresses: string | string[] = []) {
+    super();
+    // normalize the WebSocket endpoint(s)
     this.config = {
       ...config,
-      wsEndpoint: this.normalizeWsEndpoint(config.wsEndpoint)
+      wsEndpoint: Array.isArray(config.wsEndpoint)
+        ? config.wsEndpoint.map((e) => this.normalizeWsEndpoint(e))
+        : this.normalizeWsEndpoint(config.wsEndpoint)
     };
-    this.targetAddress = targetAddress;
-    this.finalAddress = targetAddress; // will be overridden if 0x
+    const poolOptions = { maxLag: config.maxBlockLag };
+    this.wsPool = new EndpointPool(this.config.wsEndpoint, poolOptions);
+    this.restPool = new EndpointPool(config.restEndpoint, poolOptions);
+    // without an EVM RPC, use the one of the configured chain (mainnet if unknown)
+    const preset = config.chainId ? SEI_NETWORK_PRESETS[config.chainId] : undefined;
+    this.evmPool = new EndpointPool(config.evmRpcEndpoint || preset?.evmRpcEndpoint || DEFAULT_EVM_RPC, poolOptions);
 
     // Setup logger
     const level = config.logLevel ?? LogLevel.INFO;
@@ -112,12 +371,198 @@ export class SeiDepositMonitor {
       timestamp: true
     };
     this.logger = new Logger(logOptions);
+    this.callbackRunner = new CallbackRunner(this.logger, config.callbacks);
+    this.callbackRunner.onError((failure) => this.emitEvent('callbackError', failure));
+
+    this.deduplicator = new DepositDeduplicator({
+      windowSize: config.dedupWindow,
+      store: config.dedupStore
+    });
+    this.checkpointStore = config.checkpointStore ?? new MemoryCheckpointStore();
+    this.denomMetadata = new DenomMetadataCache(<T>(path: string) => this.restGet<T>(path), {
+      ttlMs: config.denomMetadataTtl
+    });
+    this.denomTraces = new DenomTraceCache(<T>(path: string) => this.restGet<T>(path));
+    this.evmRpc = new EvmRpcClient(this.evmPool);
+    this.erc20Tokens = new Erc20TokenCache(this.evmRpc);
+    this.cw20Tokens = new Cw20TokenCache(<T>(path: string) => this.restGet<T>(path));
+    this.addressResolver =
+      config.addressResolver ??
+      new CachingResolver(new ChainedResolver([new PrecompileResolver(this.evmRpc), new WalletServiceResolver()]));
+
+    for (const address of Array.isArray(addresses) ? addresses : [addresses]) {
+      this.addresses.add(address);
+      // bech32 addresses need no resolution => watch right away, 0x waits for start()
+      if (!AddressUtils.isEthAddress(address)) {
+        this.watched.set(address, { input: address, address, kind: 'bech32' });
+      }
+    }
   }
 
   private normalizeWsEndpoint(endpoint: string): string {
     return endpoint.endsWith('/websocket') ? endpoint : `${endpoint}/websocket`;
   }
 
+  /**
+   * Watch another address (bech32 or 0x).
+   * If the monitor is running, a 0x address is resolved immediately.
+   */
+  public async addAddress(address: string): Promise<void> {
+    if (this.addresses.has(address)) {
+      this.logger.debug(`Address ${address} already watched`);
+      return;
+    }
+    this.addresses.add(address);
+    if (!AddressUtils.isEthAddress(address) || this.isMonitoring) {
+      await this.watchAddress(address);
+    }
+  }
+
+  /**
+   * Stop watching an address, given either its original form or its bech32 address
+   */
+  public removeAddress(address: string): void {
+    this.addresses.delete(address);
+    for (const [bech32, entry] of this.watched) {
+      if (bech32 === address || entry.input === address) {
+        this.watched.delete(bech32);
+        this.lastHeights.delete(bech32);
+        this.balanceLedger.delete(bech32);
+        this.balanceSnapshots.delete(bech32);
+        this.balanceSnapshots.delete(entry.input.toLowerCase());
+        this.addresses.delete(entry.input);
+        this.logger.info(`Stopped watching ${bech32}`);
+      }
+    }
+    this.updateSubscriptions();
+    this.erc20Subscription?.update([...this.evmWatched().keys()]);
+  }
+
+  /**
+   * All addresses currently matched against incoming deposits
+   */
+  public getWatchedAddresses(): WatchedAddress[] {
+    return [...this.watched.values()];
+  }
+
+  /**
+   * Resolve an address (if 0x) and start matching deposits against it
+   */
+  private async watchAddress(input: string): Promise<void> {
+    let resolved: ResolvedAddress = { address: input, kind: 'bech32' };
+    // for hex address, we may want to resolve
+    if (AddressUtils.isEthAddress(input)) {
+      this.logger.info(`Address ${input} is EVM. Resolving...`);
+      resolved = await this.resolveEvmAddress(input);
+      this.logger.info(`Resolved => final address = ${resolved.address} (${resolved.kind})`);
+    } else {
+      this.logger.info(`Using direct bech32 address => ${input}`);
+    }
+
+    // removed while we were resolving
+    if (!this.addresses.has(input)) return;
+    this.watched.set(resolved.address, { input, ...resolved });
+    if (resolved.resolutionError) {
+      this.logger.warn(`Watching ${input} through its cast address until resolution succeeds`);
+    }
+    this.updateSubscriptions();
+    this.erc20Subscription?.update([...this.evmWatched().keys()]);
+    this.emitEvent('addressResolved', this.watched.get(resolved.address)!);
+  }
+
+  /**
+   * Start watching the linked address of a cast address, keeping the cast address watched too
+   */
+  private async linkCastAddress(cast: WatchedAddress, linkedAddress: string): Promise<void> {
+    if (cast.linkedAddress === linkedAddress || !this.watched.has(cast.address)) return;
+    cast.linkedAddress = linkedAddress;
+    this.watched.set(linkedAddress, { input: cast.input, address: linkedAddress, kind: 'linked' });
+    this.updateSubscriptions();
+    this.erc20Subscription?.update([...this.evmWatched().keys()]);
+
+    const event: AddressLinkedEvent = {
+      inputAddress: cast.input,
+      castAddress: cast.address,
+      linkedAddress
+    };
+    this.logger.info('Cast address linked', event);
+    this.emitEvent('addressLinked', event);
+    for (const cb of this.addressLinkedCallbacks) {
+      try {
+        await cb(event);
+      } catch (error) {
+        this.logger.error('Error in address linked callback:', error);
+      }
+    }
+  }
+
+  /**
+   * Cast addresses whose EOA has not been associated with a bech32 address yet
+   */
+  private unlinkedCastAddresses(): WatchedAddress[] {
+    return [...this.watched.values()].filter((w) => w.kind === 'cast' && !w.linkedAddress);
+  }
+
+  /**
+   * Re-resolve unlinked cast addresses (all of them by default), linking those the chain now knows
+   */
+  private async recheckCastAddresses(casts: WatchedAddress[] = this.unlinkedCastAddresses()): Promise<void> {
+    for (const cast of casts) {
+      if (cast.linkedAddress || this.rechecking.has(cast.address)) continue;
+      this.rechecking.add(cast.address);
+      try {
+        const resolved = await this.resolveEvmAddress(cast.input);
+        if (resolved.kind === 'linked' && resolved.address !== cast.address) {
+          await this.linkCastAddress(cast, resolved.address);
+        } else if (!resolved.resolutionError) {
+          delete cast.resolutionError;
+        }
+      } catch (error) {
+        this.logger.warn(`Re-resolving ${cast.input} failed`, error);
+      } finally {
+        this.rechecking.delete(cast.address);
+      }
+    }
+  }
+
+  /**
+   * Watch a tx for signs that a cast EOA got associated: an `address_associated` event for it,
+   * or a MsgAssociate / EVM tx it signed (then re-resolve it in the background).
+   */
+  private async detectAssociations(tx: TxResponseItem): Promise<void> {
+    const casts = this.unlinkedCastAddresses();
+    if (!casts.length) return;
+
+    const events = [...(tx.logs ?? []).flatMap((l) => l.events), ...(tx.events ?? []), ...(tx.result?.events ?? [])];
+    let recheck = false;
+    // signers and associated EVM addresses, as lowercased 0x or bech32 addresses
+    const concerned = new Set<string>();
+    for (const event of events) {
+      const attr = (key: string) => event.attributes.find((a) => a.key === key)?.value;
+      const evmAddress = attr('evm_addr')?.toLowerCase();
+      if (evmAddress) concerned.add(evmAddress);
+      if (event.type === 'address_associated') {
+        const cast = casts.find((c) => c.input.toLowerCase() === evmAddress);
+        const seiAddress = attr('sei_addr');
+        if (cast && seiAddress && seiAddress !== cast.address) {
+          await this.linkCastAddress(cast, seiAddress);
+        }
+      } else if (event.type === 'message') {
+        const sender = attr('sender');
+        if (sender) concerned.add(sender.startsWith('0x') ? sender.toLowerCase() : sender);
+        if ([EVM_ASSOCIATE, EVM_TRANSACTION].includes(attr('action') ?? '')) recheck = true;
+      }
+    }
+    if (!recheck) return;
+
+    const toRecheck = casts.filter(
+      (c) => !c.linkedAddress && (concerned.has(c.input.toLowerCase()) || concerned.has(c.address))
+    );
+    if (toRecheck.length) {
+      this.recheckCastAddresses(toRecheck).catch((error) => this.logger.warn('Re-resolving cast addresses failed', error));
+    }
+  }
+
   /**
    * Add a callback to be notified on new deposits
    */
@@ -135,439 +580,1993 @@ export class SeiDepositMonitor {
   }
 
   /**
-   * Notify all callbacks about a deposit
+   * Add a callback to be notified once the monitor has caught up from its checkpoints to the chain tip
    */
-  private async notifyCallbacks(event: DepositEvent): Promise<void> {
-    this.logger.debug('Notifying callbacks of new deposit event', event);
-    for (const cb of this.callbacks) {
-      try {
-        await cb(event);
-      } catch (error) {
-        this.logger.error('Error in deposit callback:', error);
-      }
-    }
+  public onCaughtUp(callback: CaughtUpCallback): void {
+    this.caughtUpCallbacks.add(callback);
   }
 
   /**
-   * start monitoring
-   * - If targetAddress is 0x, we resolve it (contract => cast, EOA => possible cast, known wallet => use final).
-   * - Then we open WS and REST polling to detect deposits.
+   * Add a callback to be notified when a cast address gets linked to its final bech32 address
    */
-  public async start(): Promise<void> {
-    if (this.isMonitoring) {
-      this.logger.warn('Monitor already running');
-      return;
-    }
+  public onAddressLinked(callback: AddressLinkedCallback): void {
+    this.addressLinkedCallbacks.add(callback);
+  }
 
-    // for hex address, we may want to resolve
-    if (AddressUtils.isEthAddress(this.targetAddress)) {
-      this.logger.info(`Address ${this.targetAddress} is EVM. Resolving...`);
-      this.finalAddress = await this.resolveEvmAddress(this.targetAddress);
-      this.logger.info(`Resolved => final address = ${this.finalAddress}`);
-    } else {
-      this.logger.info(`Using direct bech32 address => ${this.finalAddress}`);
-    }
+  /**
+   * Add a callback to be notified when the WebSocket connects, drops, reconnects or gives up
+   */
+  public onConnectionState(callback: ConnectionStateCallback): void {
+    this.connectionStateCallbacks.add(callback);
+  }
 
-    this.isMonitoring = true;
-    this.logger.info('Starting deposit monitor...');
+  /**
+   * Current state of the WebSocket connection
+   */
+  public getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
 
-    await this.startWebSocket();
-    this.startRestPolling();
+  /**
+   * Add a callback to be notified of deposits that memo routing could not attribute to an account
+   * (missing or unknown memo). These deposits are not passed to `onDeposit` callbacks.
+   */
+  public onUnattributed(callback: DepositCallback): void {
+    this.unattributedCallbacks.add(callback);
   }
 
   /**
-   * Stop the monitor gracefully
+   * Add a callback to be notified of withdrawals from watched addresses (with `direction` 'out' or 'both')
    */
-  public stop(): void {
-    this.logger.info('Stopping deposit monitor');
-    this.isMonitoring = false;
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
-    }
-    this.logger.debug('Monitor stopped successfully');
+  public onWithdrawal(callback: WithdrawalCallback): void {
+    this.withdrawalCallbacks.add(callback);
   }
 
-  // -----------------------------------------------
-  //   EVM Address Resolution (contract vs. EOA)
-  // -----------------------------------------------
-  private async resolveEvmAddress(hexAddr: string): Promise<string> {
-    const evmRpc = this.config.evmRpcEndpoint || 'https://evm-rpc.sei.basementnodes.ca';
-    this.logger.debug(`resolveEvmAddress => Checking code at ${hexAddr}`);
-    const code = await this.ethGetCode(evmRpc, hexAddr);
+  /**
+   * Add a callback to be notified when, with `reconcileBalances`, a balance changed by more
+   * (or, when withdrawals are tracked, less) than the reported transfers explain
+   */
+  public onUnexplainedBalanceChange(callback: UnexplainedBalanceChangeCallback): void {
+    this.balanceChangeCallbacks.add(callback);
+  }
 
-    // if code != '0x', it’s a contract => cast
-    if (code && code !== '0x') {
-      this.logger.debug('Detected contract => cast to bech32');
-      return AddressUtils.ethAddressToBech32(hexAddr, this.config.prefix);
+  /**
+   * Iterate over deposits as they come in (the ones passed to `onDeposit` callbacks), until the monitor stops
+   * or the loop exits. Once `highWaterMark` deposits wait in the buffer, the monitor waits for the consumer.
+   *
+   *   for await (const deposit of monitor.deposits()) { ... }
+   */
+  public deposits(options: DepositStreamOptions = {}): AsyncIterableIterator<DepositEvent> {
+    const stream = new DepositStream(options, () => this.depositStreams.delete(stream));
+    this.depositStreams.add(stream);
+    return stream;
+  }
+
+  /**
+   * Emit an event, logging listener errors instead of letting them break the monitor
+   */
+  private emitEvent<K extends keyof MonitorEvents>(
+    name: K,
+    // spelled the way EventEmitter's `emit` types its args, so they can be passed on as they are
+    ...args: K extends keyof MonitorEvents ? MonitorEvents[K] : never
+  ): void {
+    try {
+      this.emit(name, ...args);
+    } catch (error) {
+      this.logger.error(`Error in ${name} listener:`, error);
     }
+  }
 
-    // else EOA => check transaction count
-    const txCountHex = await this.ethGetTransactionCount(evmRpc, hexAddr);
-    const txCount = parseInt(txCountHex, 16) || 0;
-    this.logger.debug(`EOA => txCount = ${txCount}`);
+  /**
+   * Add a callback to be notified when a deposit callback failed (or timed out) on every attempt
+   */
+  public onCallbackError(callback: CallbackErrorCallback): void {
+    this.callbackRunner.onError(callback);
+  }
 
-    // ifinal wallet known, use that
-    const chainWallet = await this.lookupChainWallet(hexAddr);
-    if (chainWallet) {
-      // known final address
-      this.logger.debug(`Chain wallet found => ${chainWallet}`);
-      return chainWallet;
+  /**
+   * Notify all callbacks about a deposit (the unattributed callbacks for an unattributed one).
+   * Final deposits are persisted for deduplication, after their handlers settled with `holdCheckpoint`.
+   */
+  private async notifyCallbacks(event: DepositEvent): Promise<void> {
+    this.logger.debug(`Notifying callbacks of ${event.unattributed ? 'unattributed' : 'new'} deposit event`, event);
+    const options = this.config.callbacks ?? {};
+    const persist = async () => {
+      if (event.stage === 'final') await this.deduplicator.persist(event.transaction);
+    };
+    if (!options.holdCheckpoint) {
+      await persist();
     }
 
-    // if new EOA => cast until first tx signed
-    if (txCount === 0) {
-      this.logger.warn('EOA brand-new => casting address');
-      return AddressUtils.ethAddressToBech32(hexAddr, this.config.prefix);
+    this.emitEvent(event.unattributed ? 'unattributed' : 'deposit', event);
+    const handled = this.callbackRunner.run(event, [...(event.unattributed ? this.unattributedCallbacks : this.callbacks)]);
+    if (options.holdCheckpoint) {
+      this.unsettledEvents.add(event);
+      handled
+        .then(persist)
+        .catch((error) => this.logger.error('Could not persist deposit', error))
+        .finally(() => this.unsettledEvents.delete(event));
+    }
+    if (!event.unattributed) {
+      await Promise.all([...this.depositStreams].map((stream) => stream.push(event)));
+    }
+    if ((options.concurrency ?? 'serial') === 'serial') {
+      await handled;
     }
-
-    // has txCount but no chain mapping => fallback to cast or error
-    this.logger.warn('EOA has tx but no chain mapping => fallback cast');
-    return AddressUtils.ethAddressToBech32(hexAddr, this.config.prefix);
   }
 
-  private async ethGetCode(rpc: string, address: string): Promise<string | null> {
-    try {
-      const body = {
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'eth_getCode',
-        params: [address, 'latest']
-      };
-      const resp = await fetch(rpc, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body)
-      });
-  
-      // Use our newly-defined JSON-RPC response type
-      const data = (await resp.json()) as JsonRpcResponse<string>;
-  
-      // Optional: handle RPC errors
-      if (data.error) {
-        this.logger.error(`eth_getCode error: ${data.error.message}`, data.error);
-        return null;
+  /**
+   * Parse a transaction and notify callbacks for every deposit (and withdrawal, depending on `direction`)
+   * not already seen by another source
+   */
+  private async handleTransaction(tx: TxResponseItem, source: DepositSource): Promise<void> {
+    await this.detectAssociations(tx);
+    this.recordFee(tx);
+    const direction = this.config.direction ?? 'in';
+    if (direction !== 'out') {
+      for (const detail of this.parseTransactionDetails(tx)) {
+        await this.emitDeposit(detail, source);
       }
-  
-      // If no error, return the 'result' (e.g. "0x" or "0x6080...")
-      return data.result || null;
-    } catch (error) {
-      this.logger.error('eth_getCode failed', error);
-      return null;
     }
-  }
-  
-  private async ethGetTransactionCount(rpc: string, address: string): Promise<string> {
-    try {
-      const body = {
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'eth_getTransactionCount',
-        params: [address, 'latest']
-      };
-      const resp = await fetch(rpc, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body)
-      });
-  
-      const data = (await resp.json()) as JsonRpcResponse<string>;
-  
-      if (data.error) {
-        this.logger.error(`eth_getTransactionCount error: ${data.error.message}`, data.error);
-        // fallback to '0x0' if there's an error
-        return '0x0';
+    if (direction !== 'in') {
+      for (const detail of this.parseWithdrawals(tx)) {
+        await this.emitWithdrawal(detail, source);
       }
-  
-      return data.result || '0x0';
-    } catch (error) {
-      this.logger.error('eth_getTransactionCount failed', error);
-      return '0x0';
     }
   }
-  
+
   /**
-   * Looks up the final chain wallet from the wallets.sei.basementnodes.ca service
+   * Notify withdrawal callbacks, unless another source already did.
+   * Withdrawals have no confirmation lifecycle: they are reported once, when first seen.
    */
-  private async lookupChainWallet(hexAddr: string): Promise<string | null> {
-    try {
-      const url = `https://wallets.sei.basementnodes.ca/${hexAddr}`;
-      this.logger.debug(`lookupChainWallet => ${url}`);
-      const resp = await fetch(url);
-      if (!resp.ok) {
-        return null;
+  private async emitWithdrawal(detail: TransactionDetails, source: DepositSource): Promise<void> {
+    if (!(await this.deduplicator.claim(detail, source))) return;
+    this.recordTransfer(detail.sender!, detail);
+    await this.enrichDetail(detail);
+
+    const event: WithdrawalEvent = {
+      status: detail.code ? 'failed' : 'success',
+      source,
+      address: detail.sender!,
+      inputAddress: this.watched.get(detail.sender!)?.input ?? detail.sender!,
+      recipient: detail.receiver || undefined,
+      amount: detail.amount,
+      coins: detail.coins,
+      fee: detail.fee,
+      transaction: detail
+    };
+    this.logger.info(`New withdrawal (${source.toUpperCase()})`, event);
+    this.emitEvent('withdrawal', event);
+    for (const cb of this.withdrawalCallbacks) {
+      try {
+        await cb(event);
+      } catch (error) {
+        this.logger.error('Error in withdrawal callback:', error);
       }
-      const data = (await resp.json()) as WalletsLookup;
-      return data.result || null;
-    } catch (error) {
-      this.logger.error('lookupChainWallet failed', error);
-      return null;
     }
   }
 
+  /**
+   * Notify callbacks of a deposit, unless another source already did
+   */
+  private async emitDeposit(detail: TransactionDetails, source: DepositSource): Promise<void> {
+    // only final deposits are persisted, so one still pending at shutdown is picked up again
+    if (!(await this.deduplicator.claim(detail, source, false))) {
+      this.logger.debug(`Skipping duplicate deposit (${source.toUpperCase()})`, {
+        key: DepositDeduplicator.keyFor(detail)
+      });
+      return;
+    }
+    this.reconcileMempool(detail.hash);
+    this.recordTransfer(detail.receiver, detail);
+    await this.enrichDetail(detail);
+    await this.advanceTip(parseInt(detail.height, 10));
+    const event = this.toDepositEvent(detail, source, this.watched.get(detail.receiver)?.input);
+    await this.attributeByMemo(event);
+    this.logger.info(`New deposit (${source.toUpperCase()})`, event);
+    if (event.stage !== 'final') {
+      this.pendingDeposits.set(DepositDeduplicator.keyFor(detail), event);
+    }
+    await this.notifyCallbacks(event);
+  }
+
+  /**
+   * With memo routing, find the account the deposit's memo belongs to, or flag it unattributed
+   */
+  private async attributeByMemo(event: DepositEvent): Promise<void> {
+    const routing = this.config.memoRouting;
+    if (!routing) return;
+    if (routing.addresses && !routing.addresses.some((a) => a === event.inputAddress || a === event.address)) return;
+
+    const memo = event.transaction.memo?.trim();
+    if (!memo) {
+      event.unattributed = 'missing_memo';
+      return;
+    }
+    try {
+      const account = await routing.registry.lookup(event.inputAddress, memo);
+      if (account === undefined) {
+        event.unattributed = 'unknown_memo';
+      } else {
+        event.account = account;
+      }
+    } catch (error) {
+      this.logger.error(`Memo lookup failed for ${event.transaction.hash}`, error);
+      event.unattributed = 'lookup_failed';
+    }
+  }
+
+  /**
+   * A tx got committed => its mempool deposits continue their lifecycle as committed deposits
+   */
+  private reconcileMempool(hash: string): void {
+    if (!this.config.watchMempool) return;
+    this.mempoolDeposits.delete(hash);
+    this.committedHashes.add(hash);
+    if (this.committedHashes.size > 1000) {
+      this.committedHashes.delete(this.committedHashes.values().next().value!);
+    }
+  }
+
+  /**
+   * Move pending deposits along their lifecycle as the chain grows
+   */
+  private async advanceTip(height: number): Promise<void> {
+    if (height <= this.tipHeight) return;
+    this.tipHeight = height;
+
+    for (const [key, pending] of [...this.pendingDeposits]) {
+      const confirmations = height - parseInt(pending.transaction.height, 10) + 1;
+      if (confirmations <= pending.confirmations) continue;
+
+      const event: DepositEvent = {
+        ...pending,
+        confirmations,
+        stage: confirmations >= pending.requiredConfirmations ? 'final' : 'confirmed'
+      };
+      if (event.stage === 'final') {
+        this.pendingDeposits.delete(key);
+      } else {
+        this.pendingDeposits.set(key, event);
+      }
+      this.logger.debug(`Deposit ${event.stage} (${confirmations}/${event.requiredConfirmations})`, { key });
+      await this.notifyCallbacks(event);
+    }
+  }
+
+  /**
+   * Confirmations a deposit needs to be final, the highest requirement among its coins
+   */
+  private requiredConfirmations(detail: TransactionDetails): number {
+    const policy: ConfirmationPolicy =
+      typeof this.config.confirmations === 'number' ? { default: this.config.confirmations } : this.config.confirmations ?? {};
+    const fallback = policy.default ?? 1;
+    const perCoin = detail.coins.map((coin) => {
+      let required = policy.denoms?.[coin.denom] ?? fallback;
+      for (const threshold of policy.thresholds ?? []) {
+        if (threshold.denom === coin.denom && coin.amount >= BigInt(threshold.minAmount)) {
+          required = Math.max(required, threshold.confirmations);
+        }
+      }
+      return required;
+    });
+    return perCoin.length ? Math.max(1, ...perCoin) : Math.max(1, fallback);
+  }
+
+  /**
+   * Resolve display amounts, IBC denom traces and CW20 token info.
+   * Lookup failures are logged and leave the detail as parsed.
+   */
+  private async enrichDetail(detail: TransactionDetails): Promise<void> {
+    try {
+      detail.coins = await this.denomMetadata.withDisplay(detail.coins);
+    } catch (error) {
+      this.logger.warn('Could not resolve denom metadata', error);
+    }
+
+    if (detail.ibc && DenomTraceCache.isIbcDenom(detail.ibc.denom)) {
+      try {
+        const trace = await this.denomTraces.get(detail.ibc.denom);
+        detail.ibc.path = trace.path;
+        detail.ibc.baseDenom = trace.baseDenom;
+      } catch (error) {
+        this.logger.warn(`Could not resolve denom trace for ${detail.ibc.denom}`, error);
+      }
+    } else if (detail.ibc) {
+      // a Sei native denom coming back home
+      detail.ibc.baseDenom = detail.ibc.denom;
+    }
+
+    if (detail.cw20) {
+      try {
+        const token = await this.cw20Tokens.get(detail.cw20.contract);
+        Object.assign(detail.cw20, token);
+        detail.coins = detail.coins.map((coin) => ({
+          ...coin,
+          display: { denom: token.symbol, decimals: token.decimals, amount: CoinUtils.formatUnits(coin.amount, token.decimals) }
+        }));
+      } catch (error) {
+        this.logger.warn(`Could not fetch CW20 token info for ${detail.cw20.contract}`, error);
+      }
+    }
+  }
+
+  private toDepositEvent(
+    detail: TransactionDetails,
+    source: DepositSource,
+    inputAddress?: string,
+    tipHeight: number = this.tipHeight
+  ): DepositEvent {
+    const requiredConfirmations = this.requiredConfirmations(detail);
+    const confirmations = Math.max(1, tipHeight - parseInt(detail.height, 10) + 1);
+    return {
+      type: this.determineDepositType(detail),
+      status: detail.code ? 'failed' : 'success',
+      stage: confirmations >= requiredConfirmations ? 'final' : 'pending',
+      confirmations,
+      requiredConfirmations,
+      source,
+      address: detail.receiver,
+      inputAddress: inputAddress ?? detail.receiver,
+      transaction: detail
+    };
+  }
+
+  /**
+   * start monitoring
+   * - Any 0x address is resolved (contract => cast, EOA => possible cast, known wallet => use final).
+   * - Each address catches up from its checkpoint to the chain tip (see `onCaughtUp`).
+   * - Then we open WS and REST polling to detect deposits.
+   */
+  public async start(): Promise<void> {
+    if (this.isMonitoring) {
+      this.logger.warn('Monitor already running');
+      return;
+    }
+
+    const watchedInputs = new Set([...this.watched.values()].map((w) => w.input));
+    for (const address of this.addresses) {
+      if (!watchedInputs.has(address)) {
+        await this.watchAddress(address);
+      }
+    }
+
+    await this.verifyNetwork();
+
+    this.isMonitoring = true;
+    this.logger.info('Starting deposit monitor...');
+
+    try {
+      await this.catchUp();
+    } catch (error) {
+      this.isMonitoring = false;
+      throw error;
+    }
+
+    this.startWebSocket();
+    this.startRestPolling();
+    if (this.config.watchMempool) {
+      this.startMempoolPolling();
+    }
+    this.startErc20Subscription();
+
+    const recheckInterval = this.config.castRecheckInterval ?? 60000;
+    if (recheckInterval > 0) {
+      this.castRecheckTimer = setInterval(() => this.recheckCastAddresses(), recheckInterval);
+    }
+
+    const healthCheckInterval = this.config.healthCheckInterval ?? 30000;
+    if (healthCheckInterval > 0 && [this.wsPool, this.restPool, this.evmPool].some((pool) => pool.size > 1)) {
+      this.healthCheckTimer = setInterval(() => this.checkEndpoints(), healthCheckInterval);
+    }
+  }
+
+  /**
+   * Stop the monitor gracefully
+   */
+  public stop(): void {
+    this.logger.info('Stopping deposit monitor');
+    this.isMonitoring = false;
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+      this.setConnectionState({ state: 'disconnected', reason: 'stopped' });
+    }
+    this.subscriptions.clear();
+    this.stopLivenessChecks();
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectAttempts = 0;
+    if (this.erc20Subscription) {
+      this.erc20Subscription.stop();
+      this.erc20Subscription = null;
+    }
+    if (this.castRecheckTimer) {
+      clearInterval(this.castRecheckTimer);
+      this.castRecheckTimer = null;
+    }
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+    for (const stream of [...this.depositStreams]) {
+      stream.end();
+    }
+    this.logger.debug('Monitor stopped successfully');
+  }
+
+  /**
+   * Refuse to run against a node of another chain than `chainId`,
+   * or with the default (mainnet) EVM RPC on another chain when EVM lookups are needed
+   */
+  private async verifyNetwork(): Promise<void> {
+    const usesDefaultEvmRpc = !this.config.evmRpcEndpoint && !this.config.chainId;
+    const needsEvm = this.config.watchErc20 || [...this.addresses].some((a) => AddressUtils.isEthAddress(a));
+    if (!this.config.chainId && !(usesDefaultEvmRpc && needsEvm)) return;
+
+    const nodeInfo = await this.restGet<NodeInfoResponse>('/cosmos/base/tendermint/v1beta1/node_info');
+    const chainId = nodeInfo.default_node_info.network;
+    if (this.config.chainId && chainId !== this.config.chainId) {
+      throw new Error(`Node is on chain ${chainId}, expected ${this.config.chainId}`);
+    }
+    if (usesDefaultEvmRpc && needsEvm && chainId !== MAINNET_CHAIN_ID) {
+      throw new Error(`No evmRpcEndpoint set for chain ${chainId} (the default is a ${MAINNET_CHAIN_ID} RPC)`);
+    }
+    this.logger.info(`Connected to chain ${chainId}`);
+  }
+
+  // -----------------------------------------------
+  //   EVM Address Resolution (contract vs. EOA)
+  // -----------------------------------------------
+  private async resolveEvmAddress(hexAddr: string): Promise<ResolvedAddress> {
+    const errors: Error[] = [];
+    const collect = (error: unknown) => {
+      if (error instanceof AddressResolutionError) {
+        errors.push(...error.errors);
+      } else {
+        errors.push(error instanceof Error ? error : new Error(String(error)));
+      }
+      return null;
+    };
+
+    this.logger.debug(`resolveEvmAddress => Checking code at ${hexAddr}`);
+    const code = await this.evmRpc.call<string>('eth_getCode', [hexAddr, 'latest']).catch(collect);
+
+    // if code != '0x', it’s a contract => cast
+    if (code && code !== '0x') {
+      this.logger.debug('Detected contract => cast to bech32');
+      return { address: AddressUtils.ethAddressToBech32(hexAddr, this.config.prefix), kind: 'contract' };
+    }
+
+    // else EOA => check transaction count
+    const txCountHex = await this.evmRpc.call<string>('eth_getTransactionCount', [hexAddr, 'latest']).catch(collect);
+    const txCount = parseInt(txCountHex ?? '0x0', 16) || 0;
+    this.logger.debug(`EOA => txCount = ${txCount}`);
+
+    // if final wallet known, use that
+    const chainWallet = await this.addressResolver.resolve(hexAddr).catch(collect);
+    if (chainWallet) {
+      // known final address
+      this.logger.debug(`Chain wallet found => ${chainWallet}`);
+      return { address: chainWallet, kind: 'linked' };
+    }
+
+    const cast: ResolvedAddress = { address: AddressUtils.ethAddressToBech32(hexAddr, this.config.prefix), kind: 'cast' };
+
+    // lookups failed => we can't tell whether the cast address is right
+    if (errors.length) {
+      const error = new AddressResolutionError(hexAddr, errors);
+      this.logger.error(`Resolution of ${hexAddr} failed`, error);
+      if (this.config.strictResolution) {
+        throw error;
+      }
+      this.logger.warn('Falling back to cast address');
+      return { ...cast, resolutionError: error };
+    }
+
+    // if new EOA => cast until first tx signed
+    if (txCount === 0) {
+      this.logger.warn('EOA brand-new => casting address');
+      return cast;
+    }
+
+    // has txCount but no chain mapping => fallback to cast
+    this.logger.warn('EOA has tx but no chain mapping => fallback cast');
+    return cast;
+  }
+
   // ------------------------------------------
-  //     WebSocket Monitoring
-  // ------------------------------------------
-  private async startWebSocket(): Promise<void> {
+  //     WebSocket Monitoring
+  // ------------------------------------------
+  private startWebSocket(): void {
+    const endpoint = this.wsPool.current();
+    const connectingAt = Date.now();
+    let ws: WebSocket;
     try {
-      this.logger.debug(`Connecting to WS => ${this.config.wsEndpoint}`);
-      this.ws = new WebSocket(this.config.wsEndpoint);
-
-      this.ws.on('open', () => {
-        this.logger.info('WebSocket connected');
-        const subscription = {
-          jsonrpc: '2.0',
-          method: 'subscribe',
-          id: 1,
-          params: {
-            query: "tm.event='Tx'"
+      this.logger.debug(`Connecting to WS => ${endpoint}`);
+      this.setConnectionState({ state: 'connecting' });
+      ws = new WebSocket(endpoint);
+    } catch (error) {
+      this.logger.error('startWebSocket error:', error);
+      this.wsPool.recordFailure(endpoint, error);
+      this.reconnect();
+      return;
+    }
+    this.ws = ws;
+    this.wsEndpoint = endpoint;
+    let opened = false;
+
+    ws.on('open', () => {
+      this.logger.info(`WebSocket connected => ${endpoint}`);
+      opened = true;
+      this.wsPool.recordSuccess(endpoint, Date.now() - connectingAt);
+      this.reconnectAttempts = 0;
+      this.setConnectionState({ state: 'connected' });
+      // subscriptions do not survive the connection => subscribe everything again
+      this.subscriptions.clear();
+      this.updateSubscriptions();
+      this.startLivenessChecks(ws);
+    });
+
+    ws.on('message', async (data: WebSocket.Data) => {
+      if (ws !== this.ws) return;
+      try {
+        const response: WsMessage = JSON.parse(data.toString());
+        this.logger.trace('WS message', response);
+
+        if (response?.error) {
+          const failed = [...this.subscriptions].find(([, sub]) => sub.id === response.id);
+          this.logger.error(`WS subscription failed${failed ? ` => ${failed[0]}` : ''}`, response.error);
+          return;
+        }
+
+        if (response?.result?.query === NEW_BLOCK_QUERY) {
+          this.resetBlockTimer(ws);
+          const height = parseInt(response.result.data?.value?.block?.header?.height ?? '', 10);
+          if (height) {
+            await this.advanceTip(height);
           }
-        };
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-          this.ws.send(JSON.stringify(subscription));
-          this.logger.debug('Sent subscribe request', subscription);
+          return;
+        }
+
+        const maybeTxResult = response?.result?.data?.value?.TxResult;
+        if (maybeTxResult) {
+          this.logger.debug('WS TxResult =>', maybeTxResult);
+          const txHash = response.result?.events?.['tx.hash']?.[0];
+          await this.handleTransaction(this.normalizeWsTxResult(maybeTxResult, txHash), 'ws');
         }
+      } catch (err) {
+        this.logger.error('Error processing WS message:', err);
+      }
+    });
+
+    // 'close' always follows 'error', so only 'close' reconnects
+    ws.on('error', (err: Error) => {
+      this.logger.error('WebSocket error:', err);
+    });
+
+    ws.on('close', (code: number, reason: Buffer) => {
+      // a socket we already replaced or stopped
+      if (ws !== this.ws) return;
+      this.ws = null;
+      this.stopLivenessChecks();
+      if (!opened) {
+        // never connected => count against the endpoint so the next attempt prefers another one
+        this.wsPool.recordFailure(endpoint, reason.toString() || `close code ${code}`);
+      }
+      this.logger.warn('WebSocket closed, reconnecting...');
+      this.setConnectionState({ state: 'disconnected', reason: reason.toString() || `close code ${code}` });
+      this.reconnect();
+    });
+  }
+
+  /**
+   * Ping the socket every `heartbeatInterval` and expect a NewBlock event within `blockTimeout`,
+   * so a half-open connection that stopped delivering data is dropped and reconnected
+   */
+  private startLivenessChecks(ws: WebSocket): void {
+    const heartbeatInterval = this.config.heartbeatInterval ?? 30000;
+    if (heartbeatInterval > 0) {
+      let alive = true;
+      ws.on('pong', () => {
+        alive = true;
       });
+      this.heartbeatTimer = setInterval(() => {
+        if (!alive) {
+          this.dropStaleConnection(ws, `no pong within ${heartbeatInterval}ms`);
+          return;
+        }
+        alive = false;
+        ws.ping();
+      }, heartbeatInterval);
+    }
+
+    if ((this.config.blockTimeout ?? 30000) > 0) {
+      const id = this.nextSubscriptionId++;
+      ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'subscribe', id, params: { query: NEW_BLOCK_QUERY } }));
+      this.resetBlockTimer(ws);
+    }
+  }
+
+  private resetBlockTimer(ws: WebSocket): void {
+    const blockTimeout = this.config.blockTimeout ?? 30000;
+    if (blockTimeout <= 0) return;
+    if (this.blockTimer) {
+      clearTimeout(this.blockTimer);
+    }
+    this.blockTimer = setTimeout(() => this.dropStaleConnection(ws, `no block within ${blockTimeout}ms`), blockTimeout);
+  }
+
+  private stopLivenessChecks(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.blockTimer) {
+      clearTimeout(this.blockTimer);
+      this.blockTimer = null;
+    }
+  }
+
+  private dropStaleConnection(ws: WebSocket, reason: string): void {
+    if (ws !== this.ws) return;
+    this.logger.warn(`WebSocket stale (${reason}), reconnecting...`);
+    if (this.wsEndpoint) {
+      this.wsPool.recordFailure(this.wsEndpoint, reason);
+    }
+    this.ws = null;
+    this.stopLivenessChecks();
+    ws.terminate();
+    this.setConnectionState({ state: 'disconnected', reason });
+    this.reconnect();
+  }
+
+  /**
+   * The WS queries matching txs that concern a watched address:
+   * bank transfers to it (or from it, for withdrawals), CW20 transfers to it, and the association of a cast EOA.
+   */
+  private subscriptionQueries(entry: WatchedAddress): string[] {
+    const direction = this.config.direction ?? 'in';
+    const queries: string[] = [];
+    if (direction !== 'out') {
+      queries.push(`tm.event='Tx' AND coin_received.receiver='${entry.address}'`);
+      if (this.config.watchCw20) {
+        queries.push(`tm.event='Tx' AND wasm.recipient='${entry.address}'`, `tm.event='Tx' AND wasm.to='${entry.address}'`);
+      }
+    }
+    if (direction !== 'in') {
+      queries.push(`tm.event='Tx' AND coin_spent.spender='${entry.address}'`);
+    }
+    if (entry.kind === 'cast' && !entry.linkedAddress) {
+      queries.push(`tm.event='Tx' AND address_associated.evm_addr='${entry.input.toLowerCase()}'`);
+    }
+    return queries;
+  }
+
+  /**
+   * Bring the WS subscriptions in line with the watched addresses:
+   * subscribe the queries we are missing and unsubscribe those no longer needed.
+   */
+  private updateSubscriptions(): void {
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    const wanted = new Map<string, string>();
+    for (const entry of this.watched.values()) {
+      for (const query of this.subscriptionQueries(entry)) {
+        wanted.set(query, entry.address);
+      }
+    }
+
+    for (const [query, sub] of this.subscriptions) {
+      if (!wanted.has(query)) {
+        ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'unsubscribe', id: sub.id, params: { query } }));
+        this.subscriptions.delete(query);
+        this.logger.debug(`Unsubscribed ${sub.address} => ${query}`);
+      }
+    }
+    for (const [query, address] of wanted) {
+      if (this.subscriptions.has(query)) continue;
+      const id = this.nextSubscriptionId++;
+      ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'subscribe', id, params: { query } }));
+      this.subscriptions.set(query, { id, address });
+      this.logger.debug(`Subscribed ${address} => ${query}`);
+    }
+  }
+
+  /**
+   * Turn a WS TxResult into the REST tx_response shape.
+   * The hash comes from the subscription's `tx.hash` event, or is computed from the tx bytes.
+   * The memo is decoded from the tx bytes.
+   */
+  private normalizeWsTxResult(txResult: WsTxResult, txHash?: string): TxResponseItem {
+    let hash = txHash;
+    if (!hash && txResult.tx) {
+      hash = TxDecoder.hash(txResult.tx);
+    }
+    let memo: string | undefined;
+    if (txResult.tx) {
+      try {
+        memo = TxDecoder.decode(txResult.tx).memo;
+      } catch (error) {
+        this.logger.debug('Could not decode WS tx bytes', error);
+      }
+    }
+    return {
+      txhash: hash ?? '',
+      height: String(txResult.height),
+      code: txResult.result?.code ?? 0,
+      codespace: txResult.result?.codespace,
+      raw_log: txResult.result?.log,
+      gas_used: txResult.result?.gas_used ?? '',
+      gas_wanted: txResult.result?.gas_wanted ?? '',
+      timestamp: new Date().toISOString(),
+      tx: memo !== undefined ? { body: { memo } } : undefined,
+      result: {
+        events: txResult.result?.events ?? []
+      }
+    };
+  }
+
+  /**
+   * Schedule the next connection attempt with exponential backoff,
+   * giving up after `reconnect.maxAttempts` consecutive failures
+   */
+  private reconnect(): void {
+    if (this.reconnectTimeout || !this.isMonitoring) return;
+
+    const attempt = ++this.reconnectAttempts;
+    const maxAttempts = this.config.reconnect?.maxAttempts ?? Infinity;
+    if (attempt > maxAttempts) {
+      this.logger.error(`WebSocket reconnect failed ${maxAttempts} times, giving up (REST polling continues)`);
+      this.setConnectionState({ state: 'failed', attempt: maxAttempts });
+      return;
+    }
+
+    const delay = this.reconnectDelay(attempt);
+    this.logger.info(`Reconnecting WebSocket in ${delay}ms (attempt ${attempt})`);
+    this.setConnectionState({ state: 'reconnecting', attempt, delay });
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      if (this.isMonitoring) {
+        this.startWebSocket();
+      }
+    }, delay);
+  }
+
+  private reconnectDelay(attempt: number): number {
+    const { initialDelay = 1000, maxDelay = 60000, multiplier = 2, jitter = 0.2 } = this.config.reconnect ?? {};
+    const delay = Math.min(maxDelay, initialDelay * multiplier ** (attempt - 1));
+    return Math.round(delay * (1 + jitter * (Math.random() * 2 - 1)));
+  }
+
+  /**
+   * Record and announce a change of the WebSocket connection state
+   */
+  private setConnectionState(event: ConnectionStateEvent): void {
+    this.connectionState = event.state;
+    if (event.state === 'connected' || event.state === 'reconnecting') {
+      this.emitEvent(event.state, event);
+    } else if (event.state === 'disconnected' || event.state === 'failed') {
+      this.emitEvent('disconnected', event);
+    }
+    for (const cb of this.connectionStateCallbacks) {
+      Promise.resolve()
+        .then(() => cb(event))
+        .catch((error) => this.logger.error('Error in connection state callback:', error));
+    }
+  }
+
+  // ------------------------------------------
+  //     REST Polling Fallback
+  // ------------------------------------------
+  private async startRestPolling(): Promise<void> {
+    this.logger.info('Starting REST polling...');
+
+    const poll = async () => {
+      if (!this.isMonitoring) return;
+
+      try {
+        const currentHeight = await this.getLatestBlockHeight();
+        this.logger.trace('Polling block height =>', currentHeight);
+        await this.syncTo(currentHeight);
+      } catch (err) {
+        this.logger.error('REST polling error:', err);
+        this.emitEvent('pollError', { source: 'rest', error: err });
+      }
+      setTimeout(poll, 6000);
+    };
+
+    poll();
+  }
+
+  /**
+   * Catch up every watched address from its checkpoint to the chain tip
+   */
+  private async catchUp(): Promise<void> {
+    const tip = await this.getLatestBlockHeight();
+    this.logger.info(`Catching up to height ${tip}...`);
+    await this.syncTo(tip);
+    this.logger.info(`Caught up at height ${tip}`);
+    this.emitEvent('caughtUp', tip);
+    for (const cb of this.caughtUpCallbacks) {
+      try {
+        await cb(tip);
+      } catch (error) {
+        this.logger.error('Error in caught up callback:', error);
+      }
+    }
+  }
+
+  /**
+   * Process every watched address up to `toHeight`, resuming each from its last checkpoint.
+   * Addresses with no checkpoint start at `toHeight`.
+   */
+  private async syncTo(toHeight: number): Promise<void> {
+    await this.advanceTip(toHeight);
+
+    // addresses sharing a start height are fetched together
+    const groups = new Map<number, string[]>();
+    for (const address of [...this.watched.keys()]) {
+      let last = this.lastHeights.get(address);
+      if (last === undefined) {
+        last = (await this.checkpointStore.get(address)) ?? toHeight;
+        this.lastHeights.set(address, last);
+        this.logger.debug(`Resuming ${address} from height ${last}`);
+      }
+      if (last < toHeight) {
+        groups.set(last, [...(groups.get(last) ?? []), address]);
+      }
+    }
+
+    for (const [last, addresses] of [...groups].sort(([a], [b]) => a - b)) {
+      this.logger.debug('New blocks detected =>', { from: last + 1, to: toHeight, addresses: addresses.length });
+
+      const txs = await this.fetchTransactions(addresses, last + 1, toHeight);
+      for (const tx of txs) {
+        await this.handleTransaction(tx, 'rest');
+      }
+
+      if (this.config.watchErc20) {
+        const inputs = new Map(addresses.map((a) => [a, this.watched.get(a)?.input ?? a]));
+        for (const detail of await this.getErc20Deposits(inputs, last + 1, toHeight)) {
+          await this.emitDeposit(detail, 'rest');
+        }
+      }
+
+      for (const address of addresses) {
+        if (!this.watched.has(address)) continue;
+        this.lastHeights.set(address, toHeight);
+        await this.checkpointStore.set(address, this.checkpointHeight(address, toHeight));
+      }
+    }
+
+    if (this.config.reconcileBalances) {
+      await this.reconcileBalances(toHeight);
+    }
+  }
+
+  // ------------------------------------------
+  //     Balance reconciliation
+  // ------------------------------------------
+
+  /**
+   * Keep a reported bank transfer until the balance of its address is reconciled past its height.
+   * Failed txs moved no funds; ERC-20 and CW20 tokens are not bank balances.
+   */
+  private recordTransfer(address: string, detail: TransactionDetails): void {
+    if (!this.config.reconcileBalances || detail.code || detail.erc20 || detail.cw20) return;
+    const entries = this.balanceLedger.get(address) ?? [];
+    entries.push({
+      height: parseInt(detail.height, 10),
+      hash: detail.hash,
+      coins: detail.coins,
+      out: detail.direction === 'out',
+      fee: detail.fee
+    });
+    this.balanceLedger.set(address, entries);
+  }
+
+  /**
+   * Keep the fee of a tx paid by a watched address, failed txs included (they pay it too),
+   * so txs moving nothing else (votes, MsgAssociate...) still explain the balance drop.
+   * A tx seen by several sources is only charged once, by hash.
+   */
+  private recordFee(tx: TxResponseItem): void {
+    if (!this.config.reconcileBalances) return;
+    const events = tx.events?.length ? tx.events : tx.result?.events ?? [];
+    const fee = tx.tx?.auth_info?.fee?.amount?.map((c) => `${c.amount}${c.denom}`).join(',') || this.feeFromEvents(events);
+    const payer = this.feePayerFromEvents(events);
+    if (!fee || !payer || !this.watched.has(payer)) return;
+    const entries = this.balanceLedger.get(payer) ?? [];
+    entries.push({ height: parseInt(tx.height, 10), hash: tx.txhash, coins: [], out: true, fee });
+    this.balanceLedger.set(payer, entries);
+  }
+
+  /**
+   * Compare the balances of every watched address at `height` with the ones at the last reconciled height,
+   * against the transfers reported in between. Every tx up to `height` has been processed at this point.
+   * 0x addresses are reconciled once, on their EVM balance, covering all their bech32 forms.
+   */
+  private async reconcileBalances(height: number): Promise<void> {
+    const groups = new Map<string, string[]>();
+    for (const entry of this.watched.values()) {
+      const key = AddressUtils.isEthAddress(entry.input) ? entry.input.toLowerCase() : entry.address;
+      groups.set(key, [...(groups.get(key) ?? []), entry.address]);
+    }
+
+    for (const [key, addresses] of groups) {
+      try {
+        await this.reconcileBalance(key, addresses, height);
+      } catch (error) {
+        // the snapshot and transfers are kept => the next round covers the range too
+        this.logger.warn(`Could not reconcile the balance of ${key} at height ${height}`, error);
+      }
+    }
+  }
+
+  private async reconcileBalance(key: string, addresses: string[], height: number): Promise<void> {
+    const previous = this.balanceSnapshots.get(key);
+    if (previous && previous.height >= height) return;
+
+    const isEvm = AddressUtils.isEthAddress(key);
+    const balances = isEvm ? await this.getEvmBalance(key, height) : await this.getBankBalances(key, height);
+    this.balanceSnapshots.set(key, { height, balances });
+
+    // the transfers up to `height` are accounted for by this snapshot
+    const transfers: LedgerEntry[] = [];
+    for (const address of addresses) {
+      const entries = this.balanceLedger.get(address) ?? [];
+      transfers.push(...entries.filter((e) => e.height <= height));
+      this.balanceLedger.set(address, entries.filter((e) => e.height > height));
+    }
+    if (!previous) return;
+
+    const expected = new Map<string, bigint>();
+    const add = (coins: Coin[], sign: bigint) => {
+      for (const coin of coins) {
+        expected.set(coin.denom, (expected.get(coin.denom) ?? 0n) + sign * coin.amount);
+      }
+    };
+    const feesPaid = new Set<string>();
+    for (const transfer of transfers) {
+      add(transfer.coins, transfer.out ? -1n : 1n);
+      if (transfer.out && transfer.fee && !feesPaid.has(transfer.hash)) {
+        feesPaid.add(transfer.hash);
+        add(this.parseCoins(transfer.fee), -1n);
+      }
+    }
+
+    // without withdrawal tracking, any shortfall may be spending
+    const tracksOutflows = (this.config.direction ?? 'in') !== 'in';
+    const changes: BalanceChange[] = [];
+    for (const denom of new Set([...previous.balances.keys(), ...balances.keys(), ...expected.keys()])) {
+      // the EVM balance only holds usei
+      if (isEvm && denom !== 'usei') continue;
+      const actual = (balances.get(denom) ?? 0n) - (previous.balances.get(denom) ?? 0n);
+      const explained = expected.get(denom) ?? 0n;
+      if (actual > explained || (tracksOutflows && actual < explained)) {
+        changes.push({ denom, expected: explained, actual });
+      }
+    }
+    if (!changes.length) return;
+
+    const event: UnexplainedBalanceChangeEvent = { address: key, fromHeight: previous.height, toHeight: height, changes };
+    this.logger.warn('Unexplained balance change', event);
+    this.emitEvent('unexplainedBalanceChange', event);
+    for (const cb of this.balanceChangeCallbacks) {
+      try {
+        await cb(event);
+      } catch (error) {
+        this.logger.error('Error in balance change callback:', error);
+      }
+    }
+  }
+
+  private async getBankBalances(address: string, height: number): Promise<Map<string, bigint>> {
+    const data = await this.restGet<BalancesResponse>(`/cosmos/bank/v1beta1/balances/${address}?pagination.limit=1000`, {
+      'x-cosmos-block-height': String(height)
+    });
+    return new Map((data.balances ?? []).map((b) => [b.denom, BigInt(b.amount)]));
+  }
+
+  /**
+   * The usei balance behind a 0x address (EVM balances are in wei, 18 decimals against usei's 6)
+   */
+  private async getEvmBalance(address: string, height: number): Promise<Map<string, bigint>> {
+    const wei = await this.evmRpc.call<string>('eth_getBalance', [address, `0x${height.toString(16)}`]);
+    return new Map([['usei', BigInt(wei) / 10n ** 12n]]);
+  }
+
+  /**
+   * The height safe to checkpoint: never past a deposit still waiting to be final
+   * (or, with `callbacks.holdCheckpoint`, one still being handled),
+   * so it is fetched again (and its lifecycle resumed) after a restart
+   */
+  private checkpointHeight(address: string, height: number): number {
+    let safe = height;
+    for (const event of [...this.pendingDeposits.values(), ...this.unsettledEvents]) {
+      if (event.address === address && event.source !== 'mempool') {
+        safe = Math.min(safe, parseInt(event.transaction.height, 10) - 1);
+      }
+    }
+    return safe;
+  }
+
+  private async getLatestBlockHeight(): Promise<number> {
+    const data = await this.restGet<BlockResponse>('/blocks/latest');
+    return parseInt(data.block.header.height, 10);
+  }
+
+  /**
+   * GET from the healthiest REST endpoint, failing over to the others on network and 5xx errors
+   * (a 4xx is the answer to the request, so it is not retried elsewhere)
+   */
+  private async restGet<T>(path: string, headers?: Record<string, string>): Promise<T> {
+    const { url, resp } = await this.restPool.request(async (endpoint) => {
+      const url = `${endpoint}${path}`;
+      const resp = await fetch(url, { headers });
+      if (resp.status >= 500) {
+        throw new Error(`REST request failed (${resp.status}) => ${url}`);
+      }
+      return { url, resp };
+    });
+    if (!resp.ok) {
+      throw new Error(`REST request failed (${resp.status}) => ${url}`);
+    }
+    return (await resp.json()) as T;
+  }
+
+  // ------------------------------------------
+  //     Mempool
+  // ------------------------------------------
+  private startMempoolPolling(): void {
+    this.logger.info('Starting mempool polling...');
+
+    const poll = async () => {
+      if (!this.isMonitoring) return;
+
+      try {
+        await this.pollMempool();
+      } catch (err) {
+        this.logger.error('Mempool polling error:', err);
+        this.emitEvent('pollError', { source: 'mempool', error: err });
+      }
+      setTimeout(poll, this.config.mempoolPollInterval ?? 1000);
+    };
+
+    poll();
+  }
+
+  /**
+   * Report bank transfers to watched addresses in the mempool as pending deposits,
+   * and settle those whose tx left the mempool
+   */
+  private async pollMempool(): Promise<void> {
+    const { txs, complete } = await this.fetchMempool();
+
+    const inMempool = new Set<string>();
+    for (const raw of txs) {
+      let tx;
+      try {
+        tx = TxDecoder.decode(raw);
+      } catch {
+        continue; // not a Cosmos SDK tx (e.g. an EVM tx)
+      }
+      inMempool.add(tx.hash);
+
+      const tracked = this.mempoolDeposits.get(tx.hash);
+      if (tracked) {
+        delete tracked.missingSince;
+        continue;
+      }
+      if (this.committedHashes.has(tx.hash)) continue;
+
+      const events: DepositEvent[] = [];
+      for (const transfer of TxDecoder.bankTransfers(tx)) {
+        const watched = this.watched.get(transfer.to);
+        if (!watched || !transfer.coins.length) continue;
+        const detail: TransactionDetails = {
+          hash: tx.hash,
+          height: '0',
+          type: transfer.typeUrl,
+          amount: transfer.coins.map((c) => `${c.amount}${c.denom}`).join(','),
+          coins: transfer.coins,
+          sender: transfer.from,
+          receiver: transfer.to,
+          gasUsed: '',
+          gasWanted: '',
+          timestamp: new Date().toISOString(),
+          memo: tx.memo || undefined,
+          messageIndex: transfer.messageIndex
+        };
+        await this.enrichDetail(detail);
+        const event: DepositEvent = { ...this.toDepositEvent(detail, 'mempool', watched.input), stage: 'pending', confirmations: 0 };
+        await this.attributeByMemo(event);
+        events.push(event);
+      }
+      if (!events.length) continue;
+
+      this.mempoolDeposits.set(tx.hash, { events });
+      for (const event of events) {
+        this.logger.info('Incoming deposit (MEMPOOL)', event);
+        await this.notifyCallbacks(event);
+      }
+    }
+
+    for (const [hash, entry] of [...this.mempoolDeposits]) {
+      if (inMempool.has(hash)) continue;
+      entry.missingSince ??= Date.now();
+      if (Date.now() - entry.missingSince >= MEMPOOL_EVICTION_GRACE) {
+        await this.settleMempoolTx(hash, entry, complete);
+      }
+    }
+  }
 
-      this.ws.on('message', async (data: WebSocket.Data) => {
-        try {
-          const response = JSON.parse(data.toString());
-          this.logger.trace('WS message', response);
-
-          // cast response to any so TS doesn't complain about .result
-          const maybeTxResult = (response as any)?.result?.data?.value?.TxResult;
-          if (maybeTxResult) {
-            this.logger.debug('WS TxResult =>', maybeTxResult);
-            const depositDetails = this.parseTransactionDetails(maybeTxResult);
-            if (depositDetails.length) {
-              for (const detail of depositDetails) {
-                const event: DepositEvent = {
-                  type: this.determineDepositType(detail),
-                  transaction: detail
-                };
-                this.logger.info('New deposit (WS)', event);
-                await this.notifyCallbacks(event);
-              }
-            }
-          }
-        } catch (err) {
-          this.logger.error('Error processing WS message:', err);
+  /**
+   * Every tx of the mempool, page by page. `complete` is false when the node could not list all of them
+   * (e.g. it ignores `page`), so a tx missing from `txs` may still be in the mempool.
+   */
+  private async fetchMempool(): Promise<{ txs: string[]; complete: boolean }> {
+    const txs: string[] = [];
+    for (let page = 1; page <= MAX_MEMPOOL_PAGES; page++) {
+      // `page`/`per_page` for Sei's Tendermint, `limit` for CometBFT (first page only)
+      const params = `page=${page}&per_page=${MEMPOOL_PAGE_SIZE}&limit=${MEMPOOL_PAGE_SIZE}`;
+      const data = await this.wsPool.request(async (endpoint) => {
+        const url = `${this.rpcUrl(endpoint)}/unconfirmed_txs?${params}`;
+        const resp = await fetch(url);
+        if (!resp.ok) {
+          throw new Error(`Mempool request failed (${resp.status}) => ${url}`);
         }
+        return (await resp.json()) as UnconfirmedTxsResponse;
       });
 
-      this.ws.on('error', (err: Error) => {
-        this.logger.error('WebSocket error:', err);
-        this.reconnect();
-      });
+      const pageTxs = data.result.txs ?? [];
+      // an empty page before the total, or the first page again => the node does not page
+      if (page > 1 && (!pageTxs.length || pageTxs[0] === txs[0])) break;
+      txs.push(...pageTxs);
 
-      this.ws.on('close', () => {
-        this.logger.warn('WebSocket closed, reconnecting...');
-        this.reconnect();
-      });
-    } catch (error) {
-      this.logger.error('startWebSocket error:', error);
-      this.reconnect();
+      if (data.result.total === undefined) {
+        return { txs, complete: pageTxs.length < MEMPOOL_PAGE_SIZE };
+      }
+      if (txs.length >= parseInt(data.result.total, 10)) {
+        return { txs, complete: true };
+      }
     }
+    this.logger.debug(`Could only list ${txs.length} mempool tx(s)`);
+    return { txs, complete: false };
   }
 
-  private reconnect(): void {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
+  /**
+   * A tx left the mempool and was not seen committed: look it up, and report its deposits dropped
+   * if it was evicted (or committed without the deposits, e.g. failed).
+   * When the mempool could not be listed completely (`listed` false), an unknown tx may still be pending
+   * and is only settled once the chain has it.
+   */
+  private async settleMempoolTx(hash: string, entry: MempoolEntry, listed: boolean): Promise<void> {
+    const tx = await this.getTx(hash);
+    if (tx) {
+      await this.handleTransaction(tx, 'rest');
     }
-    this.reconnectTimeout = setTimeout(() => {
-      if (this.isMonitoring) {
-        this.logger.info('Reconnecting WebSocket...');
-        this.startWebSocket();
+    if (this.mempoolDeposits.get(hash) !== entry) return; // reconciled with the committed tx
+    if (!tx && !listed) return;
+
+    this.mempoolDeposits.delete(hash);
+    for (const event of entry.events) {
+      const dropped: DepositEvent = { ...event, stage: 'dropped' };
+      this.logger.warn(`Deposit dropped from the mempool${tx ? ' (tx failed)' : ''}`, dropped);
+      await this.notifyCallbacks(dropped);
+    }
+  }
+
+  /**
+   * A committed tx by hash, or null if the chain does not know it
+   */
+  private async getTx(hash: string): Promise<TxResponseItem | null> {
+    try {
+      const data = await this.restGet<GetTxResponse>(`/cosmos/tx/v1beta1/txs/${hash}`);
+      return data.tx_response;
+    } catch (error) {
+      if (error instanceof Error && /\((400|404)\)/.test(error.message)) {
+        return null;
       }
-    }, 5000);
+      throw error;
+    }
   }
 
   // ------------------------------------------
-  //     REST Polling Fallback
+  //     Endpoint Health
   // ------------------------------------------
-  private async startRestPolling(): Promise<void> {
-    this.logger.info('Starting REST polling...');
-    let lastCheckedBlock = await this.getLatestBlockHeight();
-    this.logger.debug('Initial block height =>', lastCheckedBlock);
 
-    const poll = async () => {
-      if (!this.isMonitoring) return;
+  /**
+   * Health of every configured endpoint, healthiest first within each pool
+   */
+  public getEndpointHealth(): { ws: EndpointHealth[]; rest: EndpointHealth[]; evm: EndpointHealth[] } {
+    const ranked = (pool: EndpointPool) => {
+      const health = pool.getHealth();
+      return pool.ranked().map((url) => health.find((h) => h.url === url)!);
+    };
+    return { ws: ranked(this.wsPool), rest: ranked(this.restPool), evm: ranked(this.evmPool) };
+  }
 
-      try {
-        const currentHeight = await this.getLatestBlockHeight();
-        this.logger.trace('Polling block height =>', { current: currentHeight, last: lastCheckedBlock });
-
-        if (currentHeight > lastCheckedBlock) {
-          this.logger.debug('New blocks detected =>', { from: lastCheckedBlock + 1, to: currentHeight });
-
-          const txs = await this.getTransactions(lastCheckedBlock + 1, currentHeight);
-          this.logger.debug(`Fetched ${txs.length} transaction(s)`);
-          for (const tx of txs) {
-            const depositDetails = this.parseTransactionDetails(tx);
-            if (depositDetails.length) {
-              for (const detail of depositDetails) {
-                const event: DepositEvent = {
-                  type: this.determineDepositType(detail),
-                  transaction: detail
-                };
-                this.logger.info('New deposit (REST)', event);
-                await this.notifyCallbacks(event);
-              }
-            }
-          }
-          lastCheckedBlock = currentHeight;
+  /**
+   * Probe the latest height of every endpoint in the pools that have a choice,
+   * and move the WebSocket off its endpoint if that fell behind
+   */
+  private async checkEndpoints(): Promise<void> {
+    const lagging = (pool: EndpointPool) => new Set(pool.getHealth().filter((h) => h.lagging).map((h) => h.url));
+    const probes: Array<[string, EndpointPool, (url: string) => Promise<number>]> = [
+      ['WS', this.wsPool, (url) => this.probeRpcHeight(url)],
+      ['REST', this.restPool, (url) => this.probeRestHeight(url)],
+      ['EVM', this.evmPool, (url) => this.probeEvmHeight(url)]
+    ];
+
+    for (const [name, pool, probe] of probes) {
+      if (pool.size < 2) continue;
+      const wasLagging = lagging(pool);
+      await pool.check(probe);
+      for (const health of pool.getHealth()) {
+        if (health.lagging && !wasLagging.has(health.url)) {
+          this.logger.warn(`${name} endpoint ${health.url} is lagging behind the pool (height ${health.height})`);
+        } else if (!health.lagging && wasLagging.has(health.url)) {
+          this.logger.info(`${name} endpoint ${health.url} caught up (height ${health.height})`);
         }
-      } catch (err) {
-        this.logger.error('REST polling error:', err);
       }
-      setTimeout(poll, 6000);
-    };
+    }
 
-    poll();
+    if (this.ws && this.wsEndpoint && this.wsPool.current() !== this.wsEndpoint && lagging(this.wsPool).has(this.wsEndpoint)) {
+      this.dropStaleConnection(this.ws, `${this.wsEndpoint} is lagging, failing over to ${this.wsPool.current()}`);
+    }
   }
 
-  private async getLatestBlockHeight(): Promise<number> {
-    const url = `${this.config.restEndpoint}/blocks/latest`;
+  /**
+   * The CometBFT RPC base URL behind a WS endpoint
+   */
+  private rpcUrl(wsEndpoint: string): string {
+    return wsEndpoint.replace(/^ws/, 'http').replace(/\/websocket$/, '');
+  }
+
+  /**
+   * Latest height from the CometBFT RPC behind a WS endpoint (`/status`)
+   */
+  private async probeRpcHeight(wsEndpoint: string): Promise<number> {
+    const url = `${this.rpcUrl(wsEndpoint)}/status`;
+    const resp = await fetch(url);
+    if (!resp.ok) {
+      throw new Error(`Status request failed (${resp.status}) => ${url}`);
+    }
+    const data = (await resp.json()) as StatusResponse;
+    return parseInt(data.result.sync_info.latest_block_height, 10);
+  }
+
+  private async probeRestHeight(restEndpoint: string): Promise<number> {
+    const url = `${restEndpoint}/blocks/latest`;
     const resp = await fetch(url);
+    if (!resp.ok) {
+      throw new Error(`REST request failed (${resp.status}) => ${url}`);
+    }
     const data = (await resp.json()) as BlockResponse;
     return parseInt(data.block.header.height, 10);
   }
 
-  private async getTransactions(fromBlock: number, toBlock: number): Promise<TxResponseItem[]> {
-    // watch coin_received.receiver = finalAddress
-    const query = `coin_received.receiver='${this.finalAddress}'`;
-    const url = `${this.config.restEndpoint}/cosmos/tx/v1beta1/txs?events=${encodeURIComponent(query)}&pagination.limit=100`;
-    this.logger.debug('getTransactions =>', { fromBlock, toBlock, url });
-    const resp = await fetch(url);
-    const data = (await resp.json()) as TxResponse;
-    return data.tx_responses || [];
+  private async probeEvmHeight(evmEndpoint: string): Promise<number> {
+    const height = await new EvmRpcClient(evmEndpoint).call<string>('eth_blockNumber', []);
+    return parseInt(height, 16);
+  }
+
+  /**
+   * Fetch every tx in [fromBlock, toBlock] that may hold a deposit to (or withdrawal from) any of the given addresses.
+   * Queries are run per address and event key, then merged so a tx matching several is handled once.
+   */
+  private async fetchTransactions(addresses: Iterable<string>, fromBlock: number, toBlock: number): Promise<TxResponseItem[]> {
+    const direction = this.config.direction ?? 'in';
+    const eventKeys: string[] = [];
+    if (direction !== 'out') {
+      eventKeys.push('coin_received.receiver');
+      if (this.config.watchCw20) {
+        eventKeys.push('wasm.recipient', 'wasm.to');
+      }
+    }
+    if (direction !== 'in') {
+      eventKeys.push('coin_spent.spender');
+    }
+
+    const byHash = new Map<string, TxResponseItem>();
+    for (const address of addresses) {
+      for (const eventKey of eventKeys) {
+        const found = await this.getTransactions(address, fromBlock, toBlock, eventKey);
+        found.forEach((tx) => byHash.set(tx.txhash, tx));
+      }
+    }
+    const txs = [...byHash.values()].sort((a, b) => parseInt(a.height, 10) - parseInt(b.height, 10));
+    this.logger.debug(`Fetched ${txs.length} transaction(s)`);
+    return txs;
+  }
+
+  /**
+   * Fetch every tx in [fromBlock, toBlock] whose `eventKey` attribute equals the given address,
+   * walking all result pages and returning them in ascending height order.
+   */
+  private async getTransactions(
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    eventKey: string = 'coin_received.receiver'
+  ): Promise<TxResponseItem[]> {
+    // watch e.g. coin_received.receiver = address, within the block range
+    const conditions = [
+      `${eventKey}='${address}'`,
+      `tx.height>=${fromBlock}`,
+      `tx.height<=${toBlock}`
+    ];
+    const limit = Math.min(MAX_TX_PAGE_SIZE, Math.max(1, this.config.restPageSize ?? MAX_TX_PAGE_SIZE));
+    const txs: TxResponseItem[] = [];
+    const seen = new Set<string>();
+    let nextKey: string | undefined;
+    let offset = 0; // results handed out so far, which is not page * limit if the node clamps the limit
+
+    for (let page = 1; ; page++) {
+      if (page > MAX_TX_PAGES) {
+        throw new Error(`Tx search for ${eventKey}=${address} in [${fromBlock}, ${toBlock}] exceeded ${MAX_TX_PAGES} pages`);
+      }
+      const params = new URLSearchParams();
+      if (this.config.txQueryMode === 'query') {
+        params.set('query', conditions.join(' AND '));
+      } else {
+        conditions.forEach((c) => params.append('events', c));
+      }
+      params.set('order_by', 'ORDER_BY_ASC');
+      params.set('limit', String(limit));
+      params.set('pagination.limit', String(limit));
+      if (nextKey) {
+        // the node pages by key: it rejects a key combined with an offset
+        params.set('pagination.key', nextKey);
+      } else {
+        // newer nodes page with page/limit, older ones with pagination.offset/limit
+        params.set('page', String(page));
+        params.set('pagination.offset', String(offset));
+        params.set('pagination.count_total', 'true');
+      }
+
+      this.logger.debug('getTransactions =>', { address, eventKey, fromBlock, toBlock, page });
+      const data = await this.restGet<TxResponse>(`/cosmos/tx/v1beta1/txs?${params.toString()}`);
+      offset += data.tx_responses?.length ?? 0;
+      const pageTxs = (data.tx_responses || []).filter((tx) => !seen.has(tx.txhash));
+      // an empty or already seen page means the node ignores our paging (or we are past the end)
+      if (!pageTxs.length) break;
+      pageTxs.forEach((tx) => seen.add(tx.txhash));
+      txs.push(...pageTxs);
+
+      if (data.pagination?.next_key) {
+        nextKey = data.pagination.next_key;
+        continue;
+      }
+      // the last page of a search paged by key
+      if (nextKey) break;
+      // a short page only ends the search when the node does not tell how many results there are
+      const total = parseInt(data.total ?? data.pagination?.total ?? '0', 10);
+      if (total > 0 ? txs.length >= total : (data.tx_responses?.length ?? 0) < limit) {
+        break;
+      }
+    }
+
+    return txs.sort((a, b) => parseInt(a.height, 10) - parseInt(b.height, 10));
+  }
+
+  // ------------------------------------------
+  //     Historical Backfill
+  // ------------------------------------------
+
+  /**
+   * Scan a past block range for deposits, yielding them in height order.
+   * Does not need `start()`, does not notify callbacks and does not touch checkpoints.
+   */
+  public async *backfill(options: BackfillOptions): AsyncGenerator<DepositEvent> {
+    const { fromHeight, toHeight } = options;
+    if (fromHeight > toHeight) {
+      throw new Error(`Invalid backfill range: ${fromHeight} > ${toHeight}`);
+    }
+    const chunkSize = Math.max(1, options.chunkSize ?? 10000);
+    const concurrency = Math.max(1, options.concurrency ?? 2);
+    const addresses = await this.backfillAddresses(options.addresses);
+    this.logger.info('Starting backfill =>', { fromHeight, toHeight, addresses: addresses.size });
+
+    const chunks: Array<[number, number]> = [];
+    for (let from = fromHeight; from <= toHeight; from += chunkSize) {
+      chunks.push([from, Math.min(from + chunkSize - 1, toHeight)]);
+    }
+
+    // fetch up to `concurrency` chunks ahead, but always yield in chunk order
+    const pending: Array<Promise<TransactionDetails[]>> = [];
+    let next = 0;
+    const fill = () => {
+      while (pending.length < concurrency && next < chunks.length) {
+        const [from, to] = chunks[next++];
+        const fetching = this.backfillChunk(addresses, from, to);
+        // avoid unhandled rejections for chunks fetched ahead; the error surfaces when awaited
+        fetching.catch(() => undefined);
+        pending.push(fetching);
+      }
+    };
+
+    let deposits = 0;
+    for (const [, chunkEnd] of chunks) {
+      fill();
+      const details = await pending.shift()!;
+      for (const detail of details) {
+        deposits++;
+        await this.enrichDetail(detail);
+        const event = this.toDepositEvent(detail, 'backfill', addresses.get(detail.receiver), Math.max(this.tipHeight, toHeight));
+        await this.attributeByMemo(event);
+        yield event;
+      }
+      options.onProgress?.({ fromHeight, toHeight, processedHeight: chunkEnd, deposits });
+    }
+    this.logger.info(`Backfill done => ${deposits} deposit(s)`);
+  }
+
+  /**
+   * Same as `backfill`, but for the blocks committed between two dates
+   */
+  public async *backfillByDate(options: DateBackfillOptions): AsyncGenerator<DepositEvent> {
+    const { from, to, ...rest } = options;
+    const fromHeight = await this.findHeightAtTime(from);
+    // last block committed at or before `to`
+    const toHeight = (await this.findHeightAtTime(new Date(to.getTime() + 1))) - 1;
+    this.logger.debug('backfillByDate => heights', { from: from.toISOString(), to: to.toISOString(), fromHeight, toHeight });
+    if (toHeight < fromHeight) return;
+    yield* this.backfill({ ...rest, fromHeight, toHeight });
+  }
+
+  /**
+   * Map the addresses to backfill (default: all watched) to bech32 => original input
+   */
+  private async backfillAddresses(requested?: string[]): Promise<Map<string, string>> {
+    const addresses = new Map<string, string>();
+    if (!requested) {
+      // resolve any 0x address still waiting for start()
+      const watchedInputs = new Set([...this.watched.values()].map((w) => w.input));
+      for (const address of this.addresses) {
+        if (!watchedInputs.has(address)) {
+          await this.watchAddress(address);
+        }
+      }
+      this.watched.forEach((w) => addresses.set(w.address, w.input));
+      return addresses;
+    }
+
+    for (const input of requested) {
+      const watched = [...this.watched.values()].find((w) => w.input === input || w.address === input);
+      if (watched) {
+        addresses.set(watched.address, watched.input);
+      } else if (AddressUtils.isEthAddress(input)) {
+        addresses.set((await this.resolveEvmAddress(input)).address, input);
+      } else {
+        addresses.set(input, input);
+      }
+    }
+    return addresses;
+  }
+
+  private async backfillChunk(
+    addresses: Map<string, string>,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<TransactionDetails[]> {
+    const txs = await this.fetchTransactions(addresses.keys(), fromBlock, toBlock);
+    const details = txs.flatMap((tx) => this.parseTransactionDetails(tx, addresses));
+    if (this.config.watchErc20) {
+      details.push(...(await this.getErc20Deposits(addresses, fromBlock, toBlock)));
+    }
+    return details.sort((a, b) => parseInt(a.height, 10) - parseInt(b.height, 10));
+  }
+
+  /**
+   * Binary search for the first block committed at or after `time`.
+   * Heights the node has pruned are treated as too early.
+   */
+  private async findHeightAtTime(time: Date): Promise<number> {
+    let low = 1;
+    let high = await this.getLatestBlockHeight();
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const blockTime = await this.getBlockTime(mid);
+      if (blockTime !== null && blockTime >= time.getTime()) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return low;
+  }
+
+  private async getBlockTime(height: number): Promise<number | null> {
+    try {
+      const data = await this.restGet<BlockTimeResponse>(`/cosmos/base/tendermint/v1beta1/blocks/${height}`);
+      return new Date(data.block.header.time).getTime();
+    } catch (error) {
+      this.logger.debug(`Block ${height} unavailable`, error);
+      return null;
+    }
+  }
+
+  // ------------------------------------------
+  //     ERC-20 Transfers (EVM logs)
+  // ------------------------------------------
+
+  /**
+   * Watched addresses given in 0x form, keyed by lowercase 0x address
+   */
+  private evmWatched(): Map<string, WatchedAddress> {
+    const result = new Map<string, WatchedAddress>();
+    for (const watched of this.watched.values()) {
+      if (AddressUtils.isEthAddress(watched.input)) {
+        result.set(watched.input.toLowerCase(), watched);
+      }
+    }
+    return result;
+  }
+
+  private startErc20Subscription(): void {
+    if (!this.config.watchErc20 || !this.config.evmWsEndpoint) return;
+    this.erc20Subscription = new Erc20LogSubscription(this.config.evmWsEndpoint, this.logger, async (log) => {
+      const watched = this.evmWatched().get(Erc20Utils.fromTopic(log.topics[2] ?? ''));
+      if (!watched || log.removed || !Erc20Utils.isErc20Transfer(log)) return;
+      await this.emitDeposit(await this.toErc20Detail(log, watched.address), 'ws');
+    });
+    this.erc20Subscription.start([...this.evmWatched().keys()]);
+  }
+
+  /**
+   * ERC-20 Transfer logs in [fromBlock, toBlock] to any of the given addresses (bech32 => original input).
+   * Only addresses given in 0x form can be matched. Sei EVM block numbers equal chain heights.
+   */
+  private async getErc20Deposits(
+    addresses: Map<string, string>,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<TransactionDetails[]> {
+    const byEvmAddress = new Map<string, string>();
+    addresses.forEach((input, address) => {
+      if (AddressUtils.isEthAddress(input)) byEvmAddress.set(input.toLowerCase(), address);
+    });
+    if (!byEvmAddress.size) return [];
+
+    const details: TransactionDetails[] = [];
+    const range = this.config.evmLogsBlockRange ?? 2000;
+    for (let from = fromBlock; from <= toBlock; from += range) {
+      const to = Math.min(from + range - 1, toBlock);
+      const logs = await this.evmRpc.call<EvmLog[]>('eth_getLogs', [
+        {
+          fromBlock: `0x${from.toString(16)}`,
+          toBlock: `0x${to.toString(16)}`,
+          topics: [TRANSFER_TOPIC, null, [...byEvmAddress.keys()].map((a) => Erc20Utils.toTopic(a))]
+        }
+      ]);
+      for (const log of logs ?? []) {
+        const address = byEvmAddress.get(Erc20Utils.fromTopic(log.topics[2] ?? ''));
+        if (address && !log.removed && Erc20Utils.isErc20Transfer(log)) {
+          details.push(await this.toErc20Detail(log, address));
+        }
+      }
+    }
+    this.logger.debug(`Fetched ${details.length} ERC-20 transfer(s)`, { fromBlock, toBlock });
+    return details;
+  }
+
+  /**
+   * Build deposit details for an ERC-20 Transfer log to a watched address
+   */
+  private async toErc20Detail(log: EvmLog, receiver: string): Promise<TransactionDetails> {
+    const contract = log.address.toLowerCase();
+    const value = BigInt(log.data === '0x' ? 0 : log.data);
+    const denom = `erc20/${contract}`;
+    const blockNumber = parseInt(log.blockNumber, 16);
+
+    const token = await this.erc20Tokens.get(contract).catch((error) => {
+      this.logger.warn(`Could not fetch ERC-20 token info for ${contract}`, error);
+      return null;
+    });
+    const block = await this.evmRpc
+      .call<{ timestamp: string } | null>('eth_getBlockByNumber', [log.blockNumber, false])
+      .catch(() => null);
+
+    return {
+      hash: log.transactionHash,
+      height: String(blockNumber),
+      type: EVM_TRANSACTION,
+      amount: `${value}${denom}`,
+      coins: [
+        {
+          denom,
+          amount: value,
+          display: token
+            ? { denom: token.symbol, decimals: token.decimals, amount: CoinUtils.formatUnits(value, token.decimals) }
+            : undefined
+        }
+      ],
+      receiver,
+      sender: Erc20Utils.fromTopic(log.topics[1] ?? ''),
+      gasUsed: '',
+      gasWanted: '',
+      timestamp: block ? new Date(parseInt(block.timestamp, 16) * 1000).toISOString() : new Date().toISOString(),
+      erc20: {
+        contract,
+        from: Erc20Utils.fromTopic(log.topics[1] ?? ''),
+        to: Erc20Utils.fromTopic(log.topics[2] ?? ''),
+        logIndex: parseInt(log.logIndex, 16),
+        symbol: token?.symbol,
+        name: token?.name,
+        decimals: token?.decimals
+      },
+      messageIndex: 0,
+      eventIndex: parseInt(log.logIndex, 16)
+    };
   }
 
  // ------------------------------------------
 //     Parsing transaction logs
 // ------------------------------------------
-private parseTransactionDetails(tx: TxResponseItem): TransactionDetails[] {
+private parseTransactionDetails(
+    tx: TxResponseItem,
+    addresses: { has(address: string): boolean } = this.watched
+  ): TransactionDetails[] {
     this.logger.trace('parseTransactionDetails =>', tx);
     const depositDetails: TransactionDetails[] = [];
+
+    // failed txs moved no funds => skipped unless explicitly requested
+    const code = tx.code ?? 0;
+    if (code !== 0 && !this.config.includeFailed) {
+      this.logger.debug(`Skipping failed tx ${tx.txhash} (code ${code})`);
+      return depositDetails;
+    }
+    const flatEvents = tx.events?.length ? tx.events : tx.result?.events ?? [];
+    // WS txs come without `auth_info`: their fee is read from the events
+    const fee =
+      tx.tx?.auth_info?.fee?.amount?.map((c) => `${c.amount}${c.denom}`).join(',') ||
+      this.feeFromEvents(flatEvents);
+    const memo = tx.tx?.body?.memo || undefined;
   
-    // Start with whatever logs we might have from REST
+    // REST logs are already split per message, flat events (newer REST, WS) are split here
     let logs = tx.logs || [];
-  
-    /**
-     * If logs is empty, check for:
-     * - top-level `tx.events` (the shape your test uses),
-     * - WS-based `tx.result?.events`.
-     */
     if (!logs.length) {
-      if (tx.events?.length) {
-        logs = [
-          {
-            msg_index: 0,
-            log: '',
-            events: tx.events
-          }
-        ];
-      } else if (tx.result?.events?.length) {
-        logs = [
-          {
-            msg_index: 0,
-            log: '',
-            events: tx.result.events
-          }
-        ];
-      }
+      logs = this.splitEventsByMessage(flatEvents);
     }
-  
-    // Now `logs` may have at least one entry if events exist
+
     for (const log of logs) {
       const events = log.events || [];
-  
-      // Identify the message type => e.g. '/cosmos.bank.v1beta1.MsgSend' or '/seiprotocol.seichain.evm.MsgEVMTransaction'
-      let actionType = 'unknown';
-      const messageEvent = events.find((e) => e.type === 'message');
-      if (messageEvent) {
-        const actionAttr = messageEvent.attributes.find((a) => a.key === 'action');
-        if (actionAttr) {
-          actionType = actionAttr.value;
-        }
-      }
-  
+
+      // the message type => e.g. '/cosmos.bank.v1beta1.MsgSend' or '/seiprotocol.seichain.evm.MsgEVMTransaction'
+      const actionType = this.messageAction(events) ?? 'unknown';
+
       // Look for coin_received events
       const coinReceivedEvents = events.filter((e) => e.type === 'coin_received');
+      // counts every pair, watched or not, so a deposit keeps its dedup key when the watched set changes
+      let eventIndex = 0;
       for (const cre of coinReceivedEvents) {
-        const attrs = cre.attributes || [];
         // Each coin_received can have multiple (receiver, amount) pairs
-        for (let i = 0; i < attrs.length; i += 2) {
-          const receiverAttr = attrs[i];
-          const amountAttr = attrs[i + 1];
-          if (!receiverAttr || !amountAttr) continue;
-          if (receiverAttr.key !== 'receiver' || amountAttr.key !== 'amount') continue;
-  
-          const receiver = receiverAttr.value;
-          const amount = amountAttr.value;
-  
-          // If this matches our finalAddress, it's a deposit
-          if (receiver === this.finalAddress) {
+        for (const { receiver, amount } of this.attributeGroups(cre)) {
+          const index = eventIndex++;
+          if (!receiver || !amount) continue;
+
+          // If this matches any watched address, it's a deposit
+          if (addresses.has(receiver)) {
             const detail: TransactionDetails = {
               hash: tx.txhash,
               height: tx.height,
               type: actionType,
               amount,
+              coins: this.parseCoins(amount),
               receiver,
-              sender: this.extractSender(events),
+              sender: this.extractSender(events, receiver, amount),
               gasUsed: tx.gas_used,
               gasWanted: tx.gas_wanted,
               timestamp: tx.timestamp,
+              code,
+              codespace: tx.codespace,
+              rawLog: tx.raw_log,
+              fee,
+              memo,
+              ibc: actionType === IBC_RECV_PACKET ? this.extractIbcTransfer(events, receiver, amount) : undefined,
+              messageIndex: log.msg_index,
+              eventIndex: index,
               raw: tx
             };
             depositDetails.push(detail);
           }
         }
       }
+
+      // CW20 transfers never emit coin_received, only wasm events
+      if (this.config.watchCw20) {
+        for (const transfer of Cw20Utils.parseTransfers(events)) {
+          const index = eventIndex++;
+          if (!addresses.has(transfer.recipient)) continue;
+          const denom = `cw20:${transfer.contract}`;
+          depositDetails.push({
+            hash: tx.txhash,
+            height: tx.height,
+            type: actionType,
+            amount: `${transfer.amount}${denom}`,
+            coins: [{ denom, amount: BigInt(transfer.amount) }],
+            receiver: transfer.recipient,
+            sender: transfer.from ?? this.extractSender(events),
+            gasUsed: tx.gas_used,
+            gasWanted: tx.gas_wanted,
+            timestamp: tx.timestamp,
+            code,
+            codespace: tx.codespace,
+            rawLog: tx.raw_log,
+            fee,
+            memo,
+            cw20: {
+              contract: transfer.contract,
+              action: transfer.action,
+              from: transfer.from
+            },
+            messageIndex: log.msg_index,
+            eventIndex: index,
+            raw: tx
+          });
+        }
+      }
     }
   
     return depositDetails;
   }
   
   /**
-   * Helper to extract 'sender' from events (via 'message' or 'transfer').
+   * Parse the withdrawals of watched addresses from a tx: their `coin_spent` events,
+   * each matched with the `transfer` (sender => recipient) it paid for.
+   * Without `coin_spent` events (older nodes), the `transfer` events from watched senders are used.
+   * The fee payment is not a withdrawal, it is reported as `fee` on the tx's withdrawals.
+   */
+  private parseWithdrawals(tx: TxResponseItem, addresses: { has(address: string): boolean } = this.watched): TransactionDetails[] {
+    const withdrawals: TransactionDetails[] = [];
+    const code = tx.code ?? 0;
+    if (code !== 0 && !this.config.includeFailed) return withdrawals;
+
+    const flatEvents = tx.events?.length ? tx.events : tx.result?.events ?? [];
+    const fee =
+      tx.tx?.auth_info?.fee?.amount?.map((c) => `${c.amount}${c.denom}`).join(',') ||
+      this.feeFromEvents(flatEvents);
+    let logs = tx.logs || [];
+    if (!logs.length) {
+      logs = this.splitEventsByMessage(flatEvents);
+    }
+
+    for (const log of logs) {
+      // a single message keeps every tx event, including the fee payment (before the `tx` event holding the fee)
+      const isFeeEvent = (e: TxLogEvent) => e.type === 'tx' && this.attr(e, 'fee') !== undefined;
+      const events = log.events.slice(log.events.map(isFeeEvent).lastIndexOf(true) + 1);
+      const actionType = this.messageAction(log.events) ?? 'unknown';
+
+      const transfers = events.filter((e) => e.type === 'transfer').flatMap((e) => this.attributeGroups(e));
+      const spends = events.filter((e) => e.type === 'coin_spent').flatMap((e) => this.attributeGroups(e));
+      const outflows = spends.length
+        ? spends.map((s) => ({ spender: s.spender, amount: s.amount, recipient: undefined as string | undefined }))
+        : transfers.map((t) => ({ spender: t.sender, amount: t.amount, recipient: t.recipient }));
+
+      const matched = new Set<Record<string, string>>();
+      // counts every outflow, watched or not, so dedup keys do not depend on the watched set
+      let eventIndex = 0;
+      for (const { spender, amount, recipient } of outflows) {
+        const index = eventIndex++;
+        if (!spender || !amount || !addresses.has(spender)) continue;
+        let to = recipient;
+        if (!to) {
+          const candidates = transfers.filter((t) => t.sender === spender && !matched.has(t));
+          const transfer = candidates.find((t) => t.amount === amount) ?? candidates[0];
+          if (transfer) matched.add(transfer);
+          to = transfer?.recipient;
+        }
+        withdrawals.push({
+          hash: tx.txhash,
+          height: tx.height,
+          type: actionType,
+          amount,
+          coins: this.parseCoins(amount),
+          sender: spender,
+          receiver: to ?? '',
+          gasUsed: tx.gas_used,
+          gasWanted: tx.gas_wanted,
+          timestamp: tx.timestamp,
+          code,
+          codespace: tx.codespace,
+          rawLog: tx.raw_log,
+          fee,
+          memo: tx.tx?.body?.memo || undefined,
+          messageIndex: log.msg_index,
+          eventIndex: index,
+          direction: 'out',
+          raw: tx
+        });
+      }
+    }
+    return withdrawals;
+  }
+
+  /**
+   * The fee from the `tx` event of the ante handler, for txs without a decoded `auth_info` (WS)
+   */
+  private feeFromEvents(events: TxLogEvent[]): string | undefined {
+    for (const event of events.filter((e) => e.type === 'tx')) {
+      const fee = this.attr(event, 'fee');
+      if (fee !== undefined) return fee || undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Who paid the fee: the `fee_payer` of the `tx` event, or else the spender of the fee payment just before it
+   */
+  private feePayerFromEvents(events: TxLogEvent[]): string | undefined {
+    const feeIndex = events.findIndex((e) => e.type === 'tx' && this.attr(e, 'fee') !== undefined);
+    if (feeIndex < 0) return undefined;
+    const payer = this.attr(events[feeIndex], 'fee_payer');
+    if (payer) return payer;
+    for (let i = feeIndex - 1; i >= 0; i--) {
+      if (events[i].type === 'coin_spent') return this.attr(events[i], 'spender');
+    }
+    return undefined;
+  }
+
+  private attr(event: TxLogEvent, key: string): string | undefined {
+    return event.attributes.find((a) => a.key === key)?.value;
+  }
+
+  private parseCoins(amount: string): Coin[] {
+    try {
+      return CoinUtils.parseCoins(amount);
+    } catch (error) {
+      this.logger.warn(`Could not parse amount '${amount}'`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Helper to extract the counterparty sender and channels of an IBC transfer
+   * from its 'fungible_token_packet' and 'recv_packet' events.
+   */
+  private extractIbcTransfer(events: TxLogEvent[], receiver: string, amount: string): IbcTransferInfo | undefined {
+    const attr = (event: TxLogEvent | undefined, key: string) =>
+      event?.attributes.find((a) => a.key === key)?.value;
+
+    const coin = this.parseCoins(amount)[0];
+    const packets = events.filter((e) => e.type === 'fungible_token_packet' && attr(e, 'receiver') === receiver);
+    const packet = packets.find((e) => attr(e, 'amount') === coin?.amount.toString()) ?? packets[0];
+    if (!packet) return undefined;
+
+    const recvPacket = events.find((e) => e.type === 'recv_packet');
+    return {
+      sender: attr(packet, 'sender') ?? '',
+      sourcePort: attr(recvPacket, 'packet_src_port'),
+      sourceChannel: attr(recvPacket, 'packet_src_channel'),
+      destinationChannel: attr(recvPacket, 'packet_dst_channel'),
+      denom: coin?.denom ?? attr(packet, 'denom') ?? ''
+    };
+  }
+
+  /**
+   * Helper to extract the 'sender' of a message's events: from the 'transfer' to the receiver if given
+   * (exact for multi-output messages), else from the 'message' or first 'transfer' event.
    */
-  private extractSender(events: TxLogEvent[]): string | undefined {
-    const msgEvent = events.find((e) => e.type === 'message');
-    if (msgEvent) {
+  private extractSender(events: TxLogEvent[], receiver?: string, amount?: string): string | undefined {
+    const transfers = events.filter((e) => e.type === 'transfer').flatMap((e) => this.attributeGroups(e));
+    if (receiver) {
+      const toReceiver = transfers.filter((t) => t.recipient === receiver && t.sender);
+      const transfer = toReceiver.find((t) => t.amount === amount) ?? toReceiver[0];
+      if (transfer) return transfer.sender;
+    }
+
+    for (const msgEvent of events.filter((e) => e.type === 'message')) {
       const senderAttr = msgEvent.attributes.find((a) => a.key === 'sender');
       if (senderAttr) return senderAttr.value;
     }
-  
-    const transferEvent = events.find((e) => e.type === 'transfer');
-    if (transferEvent) {
-      const senderAttr = transferEvent.attributes.find((a) => a.key === 'sender');
-      if (senderAttr) return senderAttr.value;
+
+    return transfers.find((t) => t.sender)?.sender;
+  }
+
+  /**
+   * The message type from the 'message' event's 'action' attribute
+   */
+  private messageAction(events: TxLogEvent[]): string | undefined {
+    for (const event of events.filter((e) => e.type === 'message')) {
+      const action = event.attributes.find((a) => a.key === 'action')?.value;
+      if (action) return action;
     }
-  
     return undefined;
   }
+
+  /**
+   * Split a tx's flat event list into one log per message.
+   * - Cosmos SDK >= 0.50 tags message events with a `msg_index` attribute => group on it.
+   * - Older SDKs emit each message's events after a 'message' event holding its `action` => split there,
+   *   leaving out the events before the first message (fees, signatures) which belong to no message.
+   */
+  private splitEventsByMessage(events: TxLogEvent[]): TxLog[] {
+    const logs: TxLog[] = [];
+    const msgIndexOf = (e: TxLogEvent) => e.attributes.find((a) => a.key === 'msg_index')?.value;
+
+    if (events.some((e) => msgIndexOf(e) !== undefined)) {
+      const byIndex = new Map<number, TxLog>();
+      for (const event of events) {
+        const msgIndex = msgIndexOf(event);
+        if (msgIndex === undefined) continue;
+        const index = parseInt(msgIndex, 10);
+        if (!byIndex.has(index)) {
+          byIndex.set(index, { msg_index: index, log: '', events: [] });
+        }
+        byIndex.get(index)!.events.push(event);
+      }
+      return [...byIndex.values()].sort((a, b) => a.msg_index - b.msg_index);
+    }
+
+    const isAction = (e: TxLogEvent) => e.type === 'message' && e.attributes.some((a) => a.key === 'action');
+    // a single message => all events are its own, whatever their order
+    if (events.filter(isAction).length <= 1) {
+      return events.length ? [{ msg_index: 0, log: '', events }] : [];
+    }
+    for (const event of events) {
+      if (isAction(event)) {
+        logs.push({ msg_index: logs.length, log: '', events: [] });
+      }
+      logs[logs.length - 1]?.events.push(event);
+    }
+    return logs;
+  }
+
+  /**
+   * Split an event's attributes into groups, a repeated key starting a new group.
+   * REST logs merge same-type events of a message, e.g. one coin_received with receiver/amount pairs.
+   */
+  private attributeGroups(event: TxLogEvent): Array<Record<string, string>> {
+    const groups: Array<Record<string, string>> = [];
+    let group: Record<string, string> = {};
+    for (const { key, value } of event.attributes || []) {
+      if (key in group) {
+        groups.push(group);
+        group = {};
+      }
+      group[key] = value;
+    }
+    if (Object.keys(group).length) groups.push(group);
+    return groups;
+  }
   
   /**
-   * Determine deposit type: 'evm', 'direct', or 'cast'
+   * Determine deposit type: 'erc20', 'cw20', 'cast', 'evm', 'ibc', or 'direct'
    *
+   * - erc20: an ERC-20 Transfer log to a watched 0x address
+   * - cw20: a CW20 transfer/send found in wasm events
+   * - cast: sent to the cast address of an EOA (see `resolveEvmAddress`)
    * - EVM: if action is '/seiprotocol.seichain.evm.MsgEVMTransaction'
+   * - ibc: if action is '/ibc.core.channel.v1.MsgRecvPacket'
    * - direct: normal bank send
-   * - cast: If you specifically want to identify a “cast address” deposit
-   *   (maybe by comparing to a known cast address or logic),
-   *   you could implement that check here.
    */
-  private determineDepositType(details: TransactionDetails): 'direct' | 'evm' | 'cast' {
-    if (details.type === '/seiprotocol.seichain.evm.MsgEVMTransaction') {
+  private determineDepositType(details: TransactionDetails): DepositType {
+    if (details.erc20) {
+      this.logger.debug('ERC-20 deposit identified');
+      return 'erc20';
+    }
+    if (details.cw20) {
+      this.logger.debug('CW20 deposit identified');
+      return 'cw20';
+    }
+    if (this.watched.get(details.receiver)?.kind === 'cast') {
+      this.logger.debug('Cast address deposit identified');
+      return 'cast';
+    }
+    if (details.type === EVM_TRANSACTION) {
       this.logger.debug('EVM deposit identified');
       return 'evm';
     }
-    // If you have logic to detect a brand-new EOA deposit, you could do so:
-    // if (details.receiver === this.castAddress) { return 'cast'; }
+    if (details.type === IBC_RECV_PACKET) {
+      this.logger.debug('IBC deposit identified');
+      return 'ibc';
+    }
 
     this.logger.debug('Direct deposit identified');
     return 'direct';
@@ -0,0 +1,45 @@
+// src/networks.ts
+
+import { NetworkPreset } from './types';
+
+export type SeiNetworkName = 'pacific-1' | 'atlantic-2' | 'arctic-1';
+
+/**
+ * Public endpoints and chain parameters of the Sei networks
+ */
+export const SEI_NETWORKS: Record<SeiNetworkName, NetworkPreset> = {
+  // mainnet
+  'pacific-1': {
+    chainId: 'pacific-1',
+    evmChainId: 1329,
+    nativeDenom: 'usei',
+    prefix: 'sei',
+    wsEndpoint: ['wss://ws.sei.basementnodes.ca/websocket', 'wss://rpc.sei-apis.com/websocket'],
+    restEndpoint: ['https://api.sei.basementnodes.ca', 'https://rest.sei-apis.com'],
+    evmRpcEndpoint: ['https://evm-rpc.sei.basementnodes.ca', 'https://evm-rpc.sei-apis.com'],
+    evmWsEndpoint: 'wss://evm-ws.sei-apis.com'
+  },
+  // testnet
+  'atlantic-2': {
+    chainId: 'atlantic-2',
+    evmChainId: 1328,
+    nativeDenom: 'usei',
+    prefix: 'sei',
+    wsEndpoint: 'wss://rpc-testnet.sei-apis.com/websocket',
+    restEndpoint: 'https://rest-testnet.sei-apis.com',
+    evmRpcEndpoint: 'https://evm-rpc-testnet.sei-apis.com',
+    evmWsEndpoint: 'wss://evm-ws-testnet.sei-apis.com'
+  },
+  // devnet
+  'arctic-1': {
+    chainId: 'arctic-1',
+    evmChainId: 713715,
+    nativeDenom: 'usei',
+    prefix: 'sei',
+    wsEndpoint: 'wss://rpc-arctic-1.sei-apis.com/websocket',
+    restEndpoint: 'https://rest-arctic-1.sei-apis.com',
+    evmRpcEndpoint: 'https://evm-rpc-arctic-1.sei-apis.com',
+    evmWsEndpoint: 'wss://evm-ws-arctic-1.sei-apis.com'
+  }
+};
+
@@ -0,0 +1,163 @@
+// src/resolver.ts
+
+import fetch from 'node-fetch';
+import { EvmRpcClient } from './evm';
+import { Erc20Utils } from './erc20';
+
+/**
+ * Looks up the bech32 address the chain associated with an EVM (0x) address.
+ * Resolves to null when the address is not associated, and throws when the lookup itself fails.
+ */
+export interface AddressResolver {
+  resolve(evmAddress: string): Promise<string | null>;
+}
+
+/**
+ * Thrown when an address could not be resolved because lookups failed
+ * (as opposed to the address simply not being associated yet)
+ */
+export class AddressResolutionError extends Error {
+  constructor(
+    public readonly evmAddress: string,
+    public readonly errors: Error[]
+  ) {
+    super(`Could not resolve ${evmAddress}: ${errors.map((e) => e.message).join('; ')}`);
+    this.name = 'AddressResolutionError';
+  }
+}
+
+/**
+ * associated wallet lookup - wallets.sei.basementnodes.ca/<0x> response
+ */
+interface WalletsLookup {
+  original: string;
+  result: string;
+}
+
+/**
+ * Resolves through an HTTP wallet service answering `GET <baseUrl>/<0x>` with `{ original, result }`
+ */
+export class WalletServiceResolver implements AddressResolver {
+  constructor(private baseUrl: string = 'https://wallets.sei.basementnodes.ca') {}
+
+  async resolve(evmAddress: string): Promise<string | null> {
+    const url = `${this.baseUrl.replace(/\/$/, '')}/${evmAddress}`;
+    const resp = await fetch(url);
+    if (resp.status === 404) {
+      return null;
+    }
+    if (!resp.ok) {
+      throw new Error(`Wallet service lookup failed (${resp.status}) => ${url}`);
+    }
+    const data = (await resp.json()) as WalletsLookup;
+    return data.result || null;
+  }
+}
+
+// Sei's address precompile and its getSeiAddr(address) selector
+export const ADDR_PRECOMPILE = '0x0000000000000000000000000000000000001004';
+const GET_SEI_ADDR_SELECTOR = '0x0c3c20ed';
+
+/**
+ * Resolves with an eth_call to Sei's address precompile (`getSeiAddr`), against your own EVM RPC
+ */
+export class PrecompileResolver implements AddressResolver {
+  private rpc: EvmRpcClient;
+
+  constructor(rpc: EvmRpcClient | string) {
+    this.rpc = typeof rpc === 'string' ? new EvmRpcClient(rpc) : rpc;
+  }
+
+  async resolve(evmAddress: string): Promise<string | null> {
+    const data = `${GET_SEI_ADDR_SELECTOR}${Erc20Utils.toTopic(evmAddress).slice(2)}`;
+    try {
+      const result = await this.rpc.call<string>('eth_call', [{ to: ADDR_PRECOMPILE, data }, 'latest']);
+      return result && result !== '0x' ? Erc20Utils.decodeString(result) || null : null;
+    } catch (error) {
+      // the precompile reverts for addresses that are not associated
+      if (error instanceof Error && /revert/i.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Resolves from a fixed 0x => bech32 table
+ */
+export class StaticResolver implements AddressResolver {
+  private mapping: Map<string, string>;
+
+  constructor(mapping: Record<string, string> | Map<string, string>) {
+    const entries = mapping instanceof Map ? [...mapping] : Object.entries(mapping);
+    this.mapping = new Map(entries.map(([evm, bech32]) => [evm.toLowerCase(), bech32]));
+  }
+
+  async resolve(evmAddress: string): Promise<string | null> {
+    return this.mapping.get(evmAddress.toLowerCase()) ?? null;
+  }
+}
+
+/**
+ * Tries each resolver in order and returns the first address found.
+ * If none finds one and any of them failed, throws an AddressResolutionError with every failure.
+ */
+export class ChainedResolver implements AddressResolver {
+  constructor(private resolvers: AddressResolver[]) {}
+
+  async resolve(evmAddress: string): Promise<string | null> {
+    const errors: Error[] = [];
+    for (const resolver of this.resolvers) {
+      try {
+        const address = await resolver.resolve(evmAddress);
+        if (address) return address;
+      } catch (error) {
+        errors.push(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+    if (errors.length) {
+      throw new AddressResolutionError(evmAddress, errors);
+    }
+    return null;
+  }
+}
+
+export interface CachingResolverOptions {
+  /** how long a found address is cached (default 5 minutes) */
+  ttlMs?: number;
+  /** how long a "not associated" answer is cached (default 30 seconds) */
+  negativeTtlMs?: number;
+}
+
+/**
+ * Caches the answers of another resolver. Failures are never cached.
+ */
+export class CachingResolver implements AddressResolver {
+  private cache: Map<string, { address: string | null; expiresAt: number }> = new Map();
+  private ttlMs: number;
+  private negativeTtlMs: number;
+
+  constructor(
+    private inner: AddressResolver,
+    options: CachingResolverOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.negativeTtlMs = options.negativeTtlMs ?? 30 * 1000;
+  }
+
+  async resolve(evmAddress: string): Promise<string | null> {
+    const key = evmAddress.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.address;
+    }
+
+    const address = await this.inner.resolve(evmAddress);
+    this.cache.set(key, {
+      address,
+      expiresAt: Date.now() + (address ? this.ttlMs : this.negativeTtlMs)
+    });
+    return address;
+  }
+}
@@ -0,0 +1,78 @@
+// src/stream.ts
+
+import { DepositEvent } from './types';
+
+export interface DepositStreamOptions {
+  highWaterMark?: number; // events buffered before the monitor waits for the consumer (default 100)
+}
+
+/**
+ * Async iterator over deposit events, as returned by `monitor.deposits()`.
+ * Once `highWaterMark` events are buffered, `push()` only resolves when the consumer catches up.
+ */
+export class DepositStream implements AsyncIterableIterator<DepositEvent> {
+  private buffer: DepositEvent[] = [];
+  private readers: Array<(result: IteratorResult<DepositEvent>) => void> = [];
+  private writers: Array<() => void> = [];
+  private ended = false;
+  private highWaterMark: number;
+
+  constructor(options: DepositStreamOptions = {}, private onClose?: () => void) {
+    this.highWaterMark = Math.max(1, options.highWaterMark ?? 100);
+  }
+
+  /**
+   * Hand an event to the consumer, resolving once there is room for more
+   */
+  public push(event: DepositEvent): Promise<void> {
+    if (this.ended) return Promise.resolve();
+    const reader = this.readers.shift();
+    if (reader) {
+      reader({ value: event, done: false });
+      return Promise.resolve();
+    }
+    this.buffer.push(event);
+    if (this.buffer.length < this.highWaterMark) return Promise.resolve();
+    return new Promise((resolve) => this.writers.push(resolve));
+  }
+
+  /**
+   * End the stream. Buffered events are still handed out.
+   */
+  public end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    for (const reader of this.readers.splice(0)) {
+      reader({ value: undefined, done: true });
+    }
+    for (const writer of this.writers.splice(0)) {
+      writer();
+    }
+    this.onClose?.();
+  }
+
+  public async next(): Promise<IteratorResult<DepositEvent>> {
+    const value = this.buffer.shift();
+    if (value) {
+      if (this.buffer.length < this.highWaterMark) {
+        this.writers.shift()?.();
+      }
+      return { value, done: false };
+    }
+    if (this.ended) return { value: undefined, done: true };
+    return new Promise((resolve) => this.readers.push(resolve));
+  }
+
+  /**
+   * Called when a `for await` loop exits early: stop listening and drop what is buffered
+   */
+  public async return(): Promise<IteratorResult<DepositEvent>> {
+    this.buffer = [];
+    this.end();
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<DepositEvent> {
+    return this;
+  }
+}
@@ -0,0 +1,189 @@
+// src/tx.ts
+
+import { sha256 } from '@noble/hashes/sha256';
+import { Coin } from './types';
+
+const MSG_SEND = '/cosmos.bank.v1beta1.MsgSend';
+const MSG_MULTI_SEND = '/cosmos.bank.v1beta1.MsgMultiSend';
+
+/**
+ * A message of a decoded tx, still protobuf encoded
+ */
+export interface DecodedMessage {
+  typeUrl: string;
+  value: Uint8Array;
+}
+
+/**
+ * The parts of a Cosmos SDK tx we need, decoded from its protobuf `TxRaw` bytes
+ */
+export interface DecodedTx {
+  hash: string;
+  memo: string;
+  messages: DecodedMessage[];
+}
+
+/**
+ * A bank transfer to one recipient, from a MsgSend or one output of a MsgMultiSend
+ */
+export interface BankTransfer {
+  messageIndex: number;
+  typeUrl: string;
+  from?: string; // unset for a MsgMultiSend with several inputs
+  to: string;
+  coins: Coin[];
+}
+
+interface ProtoField {
+  field: number;
+  varint?: bigint;
+  bytes?: Uint8Array;
+}
+
+/**
+ * Minimal protobuf wire format reader, enough for TxRaw, TxBody and bank messages
+ */
+class ProtoReader {
+  private pos = 0;
+
+  constructor(private buf: Uint8Array) {}
+
+  static fields(buf: Uint8Array): ProtoField[] {
+    const reader = new ProtoReader(buf);
+    const fields: ProtoField[] = [];
+    while (reader.pos < buf.length) {
+      fields.push(reader.field());
+    }
+    return fields;
+  }
+
+  private field(): ProtoField {
+    const key = this.varint();
+    const field = Number(key >> 3n);
+    switch (Number(key & 7n)) {
+      case 0:
+        return { field, varint: this.varint() };
+      case 1:
+        this.skip(8);
+        return { field };
+      case 2: {
+        const length = Number(this.varint());
+        const start = this.pos;
+        this.skip(length);
+        return { field, bytes: this.buf.subarray(start, this.pos) };
+      }
+      case 5:
+        this.skip(4);
+        return { field };
+      default:
+        throw new Error(`Unsupported protobuf wire type ${key & 7n}`);
+    }
+  }
+
+  private varint(): bigint {
+    let result = 0n;
+    for (let shift = 0n; ; shift += 7n) {
+      if (this.pos >= this.buf.length) {
+        throw new Error('Truncated protobuf varint');
+      }
+      const byte = this.buf[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if (!(byte & 0x80)) return result;
+    }
+  }
+
+  private skip(length: number): void {
+    if (this.pos + length > this.buf.length) {
+      throw new Error('Truncated protobuf field');
+    }
+    this.pos += length;
+  }
+}
+
+const text = (bytes?: Uint8Array) => (bytes ? Buffer.from(bytes).toString('utf8') : '');
+
+export class TxDecoder {
+  /**
+   * Tx hash as shown by explorers: uppercase hex sha256 of the tx bytes
+   */
+  static hash(tx: Uint8Array | string): string {
+    const bytes = typeof tx === 'string' ? Buffer.from(tx, 'base64') : tx;
+    return Buffer.from(sha256(bytes)).toString('hex').toUpperCase();
+  }
+
+  /**
+   * Decode base64 (or raw) `TxRaw` bytes into the tx hash, memo and messages.
+   * Throws for bytes that are not a Cosmos SDK tx.
+   */
+  static decode(tx: Uint8Array | string): DecodedTx {
+    const bytes = typeof tx === 'string' ? Buffer.from(tx, 'base64') : tx;
+    const bodyBytes = ProtoReader.fields(bytes).find((f) => f.field === 1)?.bytes;
+    if (!bodyBytes) {
+      throw new Error('Tx has no body');
+    }
+
+    let memo = '';
+    const messages: DecodedMessage[] = [];
+    for (const f of ProtoReader.fields(bodyBytes)) {
+      if (f.field === 1 && f.bytes) {
+        const any = ProtoReader.fields(f.bytes);
+        messages.push({
+          typeUrl: text(any.find((a) => a.field === 1)?.bytes),
+          value: any.find((a) => a.field === 2)?.bytes ?? new Uint8Array()
+        });
+      } else if (f.field === 2) {
+        memo = text(f.bytes);
+      }
+    }
+    return { hash: TxDecoder.hash(bytes), memo, messages };
+  }
+
+  /**
+   * Bank transfers (MsgSend, MsgMultiSend outputs) of a decoded tx
+   */
+  static bankTransfers(tx: DecodedTx): BankTransfer[] {
+    const transfers: BankTransfer[] = [];
+    tx.messages.forEach(({ typeUrl, value }, messageIndex) => {
+      const fields = ProtoReader.fields(value);
+      if (typeUrl === MSG_SEND) {
+        transfers.push({
+          messageIndex,
+          typeUrl,
+          from: text(fields.find((f) => f.field === 1)?.bytes),
+          to: text(fields.find((f) => f.field === 2)?.bytes),
+          coins: fields.filter((f) => f.field === 3 && f.bytes).map((f) => TxDecoder.coin(f.bytes!))
+        });
+      } else if (typeUrl === MSG_MULTI_SEND) {
+        const inputs = fields.filter((f) => f.field === 1 && f.bytes).map((f) => TxDecoder.balance(f.bytes!));
+        for (const output of fields.filter((f) => f.field === 2 && f.bytes)) {
+          const { address, coins } = TxDecoder.balance(output.bytes!);
+          transfers.push({
+            messageIndex,
+            typeUrl,
+            from: inputs.length === 1 ? inputs[0].address : undefined,
+            to: address,
+            coins
+          });
+        }
+      }
+    });
+    return transfers;
+  }
+
+  // bank Input / Output: { address, coins }
+  private static balance(bytes: Uint8Array): { address: string; coins: Coin[] } {
+    const fields = ProtoReader.fields(bytes);
+    return {
+      address: text(fields.find((f) => f.field === 1)?.bytes),
+      coins: fields.filter((f) => f.field === 2 && f.bytes).map((f) => TxDecoder.coin(f.bytes!))
+    };
+  }
+
+  private static coin(bytes: Uint8Array): Coin {
+    const fields = ProtoReader.fields(bytes);
+    return {
+      denom: text(fields.find((f) => f.field === 1)?.bytes),
+      amount: BigInt(text(fields.find((f) => f.field === 2)?.bytes) || '0')
+    };
+  }
+}
@@ -1,15 +1,30 @@
 // src/types.ts
 
 import { LogLevel } from './logger';
+import type { DedupStore } from './dedup';
+import type { CheckpointStore } from './checkpoint';
+import type { AddressResolver, AddressResolutionError } from './resolver';
+import type { MemoRegistry } from './memo';
 
 /**
  * Standard network configuration for Sei.
  */
 export interface NetworkConfig {
-  wsEndpoint: string;
-  restEndpoint: string;
+  wsEndpoint: string | string[];   // several endpoints => failover between them
+  restEndpoint: string | string[];
   prefix: string;
-  evmRpcEndpoint?: string; // if you need EVM address resolution
+  evmRpcEndpoint?: string | string[]; // if you need EVM address resolution
+  evmWsEndpoint?: string;  // EVM JSON-RPC websocket, for live ERC-20 transfer logs
+  chainId?: string;        // if set, start() refuses to run against a node of another chain
+}
+
+/**
+ * A known Sei network: its endpoints plus chain parameters
+ */
+export interface NetworkPreset extends NetworkConfig {
+  chainId: string;
+  evmChainId: number;
+  nativeDenom: string;
 }
 
 /**
@@ -17,31 +32,391 @@ export interface NetworkConfig {
  */
 export interface MonitorConfig extends NetworkConfig {
   logLevel?: LogLevel;
+  txQueryMode?: 'events' | 'query'; // 'query' for nodes on Cosmos SDK >= 0.50 (default 'events')
+  restPageSize?: number;   // txs per page when polling REST (default and max 100)
+  includeFailed?: boolean; // also emit deposits from failed txs (code != 0), with status 'failed'
+  denomMetadataTtl?: number; // ms denom metadata is cached for (default 1 hour)
+  watchErc20?: boolean;    // also detect ERC-20 transfers to watched 0x addresses
+  evmLogsBlockRange?: number; // max blocks per eth_getLogs call (default 2000)
+  watchCw20?: boolean;     // also detect CW20 transfers to watched addresses from wasm events
+  watchMempool?: boolean;  // report bank transfers in the mempool as pending deposits before they commit
+  mempoolPollInterval?: number; // ms between mempool polls (default 1000)
+  castRecheckInterval?: number; // ms between re-resolving unlinked cast addresses (default 60000, 0 = off)
+  addressResolver?: AddressResolver; // 0x => bech32 lookup (default: cached address precompile, then wallet service)
+  strictResolution?: boolean; // throw instead of falling back to the cast address when lookups fail
+  reconnect?: ReconnectOptions; // WebSocket reconnect backoff
+  heartbeatInterval?: number; // ms between WebSocket pings, a missed pong forces a reconnect (default 30000, 0 = off)
+  blockTimeout?: number;   // ms without a NewBlock event before the WebSocket is considered stale (default 30000, 0 = off)
+  healthCheckInterval?: number; // ms between endpoint health checks, when a pool has several endpoints (default 30000, 0 = off)
+  confirmations?: number | ConfirmationPolicy; // confirmations before a deposit is final (default 1)
+  maxBlockLag?: number;    // blocks an endpoint may fall behind the highest one in its pool before it is avoided (default 20)
+  memoRouting?: MemoRoutingOptions; // attribute deposits on shared addresses to accounts by memo
+  direction?: TransferDirection; // report deposits ('in', default), withdrawals ('out') or both
+  reconcileBalances?: boolean; // compare balance changes at each new height with the reported transfers
+  callbacks?: CallbackOptions; // timeouts, concurrency and retries of deposit callbacks
+  dedupWindow?: number;    // number of recent deposits remembered in memory
+  dedupStore?: DedupStore; // optional persistent store for deduplication keys
+  checkpointStore?: CheckpointStore; // where the last processed height per address is kept (default in-memory)
+}
+
+/**
+ * Display denom and decimals for a base denom, e.g. usei => { denom: 'SEI', decimals: 6 }
+ */
+export interface DenomDisplay {
+  denom: string;
+  decimals: number;
+}
+
+/**
+ * A coin amount in base units, with its display amount when the denom metadata is known
+ */
+export interface Coin {
+  denom: string;
+  amount: bigint;
+  display?: DenomDisplay & {
+    amount: string; // decimal string, e.g. '1.5'
+  };
+}
+
+/**
+ * Origin of an IBC denom, e.g. { path: 'transfer/channel-0', baseDenom: 'uatom' }
+ */
+export interface DenomTrace {
+  path: string;
+  baseDenom: string;
+}
+
+/**
+ * Details of a deposit received over IBC (MsgRecvPacket)
+ */
+export interface IbcTransferInfo {
+  sender: string;              // sender on the counterparty chain
+  sourcePort?: string;         // port on the counterparty chain
+  sourceChannel?: string;      // channel on the counterparty chain
+  destinationChannel?: string; // channel on Sei the packet arrived through
+  denom: string;               // denom as received, e.g. 'ibc/27394FB0...'
+  path?: string;               // trace path, e.g. 'transfer/channel-0'
+  baseDenom?: string;          // e.g. 'uatom'
+}
+
+/**
+ * Token info of an ERC-20 or CW20 contract
+ */
+export interface TokenInfo {
+  symbol: string;
+  name?: string;
+  decimals: number;
+}
+
+/**
+ * Details of an ERC-20 Transfer log to a watched 0x address
+ */
+export interface Erc20TransferInfo {
+  contract: string; // token contract, lowercase 0x
+  from: string;
+  to: string;
+  logIndex: number;
+  symbol?: string;
+  name?: string;
+  decimals?: number;
+}
+
+/**
+ * Details of a CW20 transfer to a watched address
+ */
+export interface Cw20TransferInfo {
+  contract: string;
+  action: string; // 'transfer' | 'send' | 'transfer_from' | 'send_from'
+  from?: string;
+  symbol?: string;
+  name?: string;
+  decimals?: number;
 }
 
 export interface TransactionDetails {
   hash: string;
   height: string;
   type: string;
-  amount: string;
+  amount: string; // raw coin string, e.g. '100usei' or '5usei,3ibc/ABC...'
+  coins: Coin[];  // `amount` parsed into base-unit coins
   sender?: string;
   receiver: string;
   gasUsed: string;
   gasWanted: string;
   timestamp: string;
+  code?: number;      // tx result code, 0 on success
+  codespace?: string; // module the error code belongs to, for failed txs
+  rawLog?: string;    // raw log, holds the error message for failed txs
+  fee?: string;       // e.g. '20000usei'
+  memo?: string;
+  ibc?: IbcTransferInfo; // set for deposits received over IBC
+  erc20?: Erc20TransferInfo; // set for ERC-20 token deposits
+  cw20?: Cw20TransferInfo;   // set for CW20 token deposits
+  messageIndex?: number; // index of the message within the tx
+  eventIndex?: number;   // index of the matching coin_received (coin_spent for withdrawals) pair within the message
+  direction?: 'in' | 'out'; // 'out' for a withdrawal: `sender` is the watched address, `receiver` the recipient
   raw?: any;
 }
 
+/**
+ * How a watched bech32 address was obtained:
+ * - bech32: given directly
+ * - contract: cast from the 0x address of an EVM contract
+ * - linked: the bech32 address the chain associated with an EOA
+ * - cast: cast from the 0x address of an EOA not associated yet
+ */
+export type AddressKind = 'bech32' | 'contract' | 'linked' | 'cast';
+
+/**
+ * The bech32 address a 0x address resolved to
+ */
+export interface ResolvedAddress {
+  address: string;
+  kind: AddressKind;
+  resolutionError?: AddressResolutionError; // set when lookups failed and the cast address was used instead
+}
+
+/**
+ * An address being watched for deposits
+ */
+export interface WatchedAddress {
+  input: string;   // as given by the caller (bech32 or 0x)
+  address: string; // bech32 address matched against coin_received
+  kind?: AddressKind;
+  linkedAddress?: string; // for a cast address, the bech32 address it got linked to
+  resolutionError?: AddressResolutionError;
+}
+
+/**
+ * Where a deposit was first seen
+ */
+export type DepositSource = 'ws' | 'rest' | 'backfill' | 'mempool';
+
+export type DepositType = 'direct' | 'evm' | 'cast' | 'ibc' | 'erc20' | 'cw20';
+
 export interface DepositEvent {
-  type: 'direct' | 'evm' | 'cast';
+  type: DepositType;
+  status: 'success' | 'failed';
+  stage: DepositStage;
+  confirmations: number;         // blocks since the deposit's block, counting it (0 while in the mempool)
+  requiredConfirmations: number; // confirmations needed for the deposit to be final
+  source: DepositSource;
+  address: string;      // watched bech32 address that received the deposit
+  inputAddress: string; // the address as originally given (e.g. the 0x form)
+  transaction: TransactionDetails;
+  account?: string;     // with memo routing, the account the deposit's memo belongs to
+  unattributed?: UnattributedReason; // with memo routing, why no account could be found
+}
+
+/**
+ * Match deposits to accounts through their memo
+ */
+export interface MemoRoutingOptions {
+  registry: MemoRegistry;
+  addresses?: string[]; // the shared addresses to route by memo, as given to the monitor (default all)
+}
+
+export type UnattributedReason = 'missing_memo' | 'unknown_memo' | 'lookup_failed';
+
+/**
+ * Where a deposit is in its lifecycle. Callbacks are notified on every transition:
+ * `pending` when first seen, `confirmed` as blocks are added on top, `final` once deep enough.
+ * A deposit seen in the mempool is `dropped` if its tx gets evicted (or fails) instead of committed.
+ */
+export type DepositStage = 'pending' | 'confirmed' | 'final' | 'dropped';
+
+/**
+ * How many confirmations a deposit needs to be final.
+ * The highest requirement among the deposit's coins applies.
+ */
+export interface ConfirmationPolicy {
+  default?: number;                 // when no other rule applies (default 1)
+  denoms?: Record<string, number>;  // per base denom, e.g. { usei: 3, 'erc20/0x...': 10 }
+  thresholds?: ConfirmationThreshold[];
+}
+
+/**
+ * Require more confirmations for deposits of at least `minAmount` (base units) of `denom`
+ */
+export interface ConfirmationThreshold {
+  denom: string;
+  minAmount: bigint | string;
+  confirmations: number;
+}
+
+/**
+ * Which transfers of the watched addresses are reported: deposits ('in'), withdrawals ('out') or both
+ */
+export type TransferDirection = 'in' | 'out' | 'both';
+
+/**
+ * Funds leaving a watched address (a `coin_spent` by it), reported with `direction` 'out' or 'both'
+ */
+export interface WithdrawalEvent {
+  status: 'success' | 'failed';
+  source: DepositSource;
+  address: string;      // the watched bech32 address the funds left
+  inputAddress: string; // the address as given to the monitor (e.g. the 0x form)
+  recipient?: string;   // from the matching `transfer` event, unset if there is none (e.g. burns)
+  amount: string;
+  coins: Coin[];
+  fee?: string;         // fee of the whole tx, e.g. '20000usei'
   transaction: TransactionDetails;
 }
 
+export type WithdrawalCallback = (event: WithdrawalEvent) => void | Promise<void>;
+
+/**
+ * How much of a denom a balance changed by, against what the reported transfers account for
+ */
+export interface BalanceChange {
+  denom: string;
+  expected: bigint; // net amount of the deposits (minus withdrawals and their fees) reported in the range
+  actual: bigint;   // balance difference between both heights
+}
+
+/**
+ * A balance change of a watched address between two heights that the reported transfers do not explain,
+ * e.g. module payouts, staking rewards or EVM-internal transfers
+ */
+export interface UnexplainedBalanceChangeEvent {
+  address: string; // the watched bech32 address, or the 0x address for EVM balances
+  fromHeight: number;
+  toHeight: number;
+  changes: BalanceChange[];
+}
+
+export type UnexplainedBalanceChangeCallback = (event: UnexplainedBalanceChangeEvent) => void | Promise<void>;
+
 /**
  * Callback type for deposit events
  */
 export type DepositCallback = (event: DepositEvent) => void | Promise<void>;
 
+/**
+ * Callback type for the "caught up" signal, called with the height caught up to
+ */
+export type CaughtUpCallback = (height: number) => void | Promise<void>;
+
+/**
+ * Options for scanning a past block range with `backfill()`
+ */
+export interface BackfillOptions {
+  fromHeight: number;
+  toHeight: number;
+  addresses?: string[];  // default = all watched addresses
+  chunkSize?: number;    // blocks per query (default 10000)
+  concurrency?: number;  // chunks fetched in parallel (default 2)
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+/**
+ * Options for `backfillByDate()`, same as `BackfillOptions` but bounded by dates
+ */
+export interface DateBackfillOptions extends Omit<BackfillOptions, 'fromHeight' | 'toHeight'> {
+  from: Date;
+  to: Date;
+}
+
+export interface BackfillProgress {
+  fromHeight: number;
+  toHeight: number;
+  processedHeight: number; // every block up to here has been scanned
+  deposits: number;        // deposits yielded so far
+}
+
+/**
+ * Emitted when the EOA behind a cast address gets associated with its final bech32 address.
+ * Both addresses stay watched.
+ */
+export interface AddressLinkedEvent {
+  inputAddress: string;
+  castAddress: string;
+  linkedAddress: string;
+}
+
+export type AddressLinkedCallback = (event: AddressLinkedEvent) => void | Promise<void>;
+
+/**
+ * Exponential backoff between WebSocket reconnect attempts
+ */
+export interface ReconnectOptions {
+  initialDelay?: number; // ms before the first attempt (default 1000)
+  maxDelay?: number;     // upper bound for the delay (default 60000)
+  multiplier?: number;   // delay growth per attempt (default 2)
+  jitter?: number;       // random +/- fraction applied to each delay (default 0.2)
+  maxAttempts?: number;  // give up after this many consecutive failed attempts (default unlimited)
+}
+
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'failed';
+
+/**
+ * A change of the WebSocket connection state
+ */
+export interface ConnectionStateEvent {
+  state: ConnectionState;
+  reason?: string;  // why the connection was lost
+  attempt?: number; // reconnect attempt, for 'reconnecting' and 'failed'
+  delay?: number;   // ms until the attempt, for 'reconnecting'
+}
+
+export type ConnectionStateCallback = (event: ConnectionStateEvent) => void | Promise<void>;
+
+/**
+ * How deposit callbacks are run.
+ * - `serial`: the monitor waits for every handler of an event before processing anything else (default)
+ * - `parallel`: handlers run as soon as an event is emitted, without holding up the monitor or each other
+ * - `per-address`: events of one address are handled in order, different addresses concurrently,
+ *   without holding up the monitor
+ */
+export type CallbackConcurrency = 'serial' | 'parallel' | 'per-address';
+
+export interface CallbackOptions {
+  timeout?: number;        // ms a handler may take before it counts as failed (default 30000, 0 = off)
+  concurrency?: CallbackConcurrency;
+  retries?: number;        // extra attempts for a failed or timed out handler (default 0)
+  retryDelay?: number;     // ms before the first retry, doubled on each one (default 1000)
+  holdCheckpoint?: boolean; // keep checkpoints (and dedup persistence) behind events whose handlers are still running
+}
+
+/**
+ * A deposit handler that failed (or timed out) on every attempt
+ */
+export interface CallbackErrorEvent {
+  event: DepositEvent;
+  error: unknown;
+  attempts: number;
+  timedOut: boolean;
+}
+
+export type CallbackErrorCallback = (event: CallbackErrorEvent) => void | Promise<void>;
+
+/**
+ * An error of a background polling loop, which keeps running
+ */
+export interface PollErrorEvent {
+  source: 'rest' | 'mempool';
+  error: unknown;
+}
+
+/**
+ * Events emitted by `SeiDepositMonitor`, with their listener arguments
+ */
+export interface MonitorEvents {
+  deposit: [event: DepositEvent];
+  withdrawal: [event: WithdrawalEvent];
+  unexplainedBalanceChange: [event: UnexplainedBalanceChangeEvent];
+  unattributed: [event: DepositEvent];    // deposits memo routing could not attribute
+  connected: [event: ConnectionStateEvent];
+  disconnected: [event: ConnectionStateEvent]; // also when reconnecting gives up (state 'failed')
+  reconnecting: [event: ConnectionStateEvent];
+  addressResolved: [address: WatchedAddress]; // an address is being watched, with how it was resolved
+  addressLinked: [event: AddressLinkedEvent];
+  pollError: [event: PollErrorEvent];
+  caughtUp: [height: number];
+  callbackError: [event: CallbackErrorEvent];
+}
+
 /**
  * A generic JSON-RPC 2.0 response type for EVM queries.
  * @template ResultType The shape of the `result` field.
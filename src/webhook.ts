@@ -0,0 +1,296 @@
+// src/webhook.ts
+
+import { promises as fs } from 'fs';
+import fetch from 'node-fetch';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { DepositDeduplicator } from './dedup';
+import { Logger, LogLevel } from './logger';
+import type { SeiDepositMonitor } from './monitor';
+import { DepositCallback, DepositEvent } from './types';
+
+/**
+ * Version of the webhook payload format, bumped on breaking changes
+ */
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export interface WebhookOptions {
+  url: string;
+  secret: string;         // HMAC-SHA256 key for the `X-Webhook-Signature` header
+  maxAttempts?: number;   // delivery attempts before dead-lettering (default 5)
+  initialDelay?: number;  // ms before the first retry, doubled on each one (default 1000)
+  maxDelay?: number;      // upper bound for the retry delay (default 30000)
+  timeout?: number;       // ms per request (default 10000)
+  headers?: Record<string, string>;
+  deadLetterFile?: string; // JSON lines file failed deliveries are appended to (default: dropped, logged)
+  logger?: Logger;
+}
+
+/**
+ * The JSON body POSTed for each deposit event
+ */
+export interface WebhookPayload {
+  version: number;
+  id: string; // idempotency key, the same across retries and replays
+  event: DepositEvent;
+}
+
+/**
+ * A delivery that kept failing, as stored in the dead-letter file
+ */
+export interface DeadLetter {
+  id: string;
+  body: string;
+  error: string;
+  attempts: number;
+  failedAt: string;
+}
+
+/**
+ * Thrown for responses that retrying will not fix (4xx other than 408/429)
+ */
+class PermanentDeliveryError extends Error {}
+
+/**
+ * POSTs deposit events to a webhook, signed and retried, with a file-backed dead-letter queue.
+ *
+ * Headers sent with each delivery:
+ * - `Idempotency-Key`: the payload id, so receivers can drop retried duplicates
+ * - `X-Webhook-Signature`: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export class WebhookNotifier {
+  private logger: Logger;
+  private queue: Promise<void> = Promise.resolve();
+  private deadLetterQueue: Promise<void> = Promise.resolve();
+  private attached: Array<{ monitor: SeiDepositMonitor; callback: DepositCallback }> = [];
+
+  constructor(private options: WebhookOptions) {
+    this.logger = options.logger ?? new Logger({ level: LogLevel.INFO, prefix: 'Webhook', timestamp: true });
+  }
+
+  /**
+   * Sign a body the way receivers verify it
+   */
+  static sign(secret: string, body: string, timestamp: number): string {
+    const mac = hmac(sha256, Buffer.from(secret), Buffer.from(`${timestamp}.${body}`));
+    return `t=${timestamp},v1=${Buffer.from(mac).toString('hex')}`;
+  }
+
+  /**
+   * Check a `X-Webhook-Signature` header, rejecting signatures older than `toleranceSeconds`
+   */
+  static verify(secret: string, body: string, header: string, toleranceSeconds: number = 300): boolean {
+    const parts = new Map(header.split(',').map((p) => p.split('=', 2) as [string, string]));
+    const timestamp = Number(parts.get('t'));
+    if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+      return false;
+    }
+    const expected = Buffer.from(WebhookNotifier.sign(secret, body, timestamp));
+    const actual = Buffer.from(header);
+    // constant time comparison
+    let diff = expected.length ^ actual.length;
+    for (let i = 0; i < expected.length; i++) {
+      diff |= expected[i] ^ (actual[i] ?? 0);
+    }
+    return diff === 0;
+  }
+
+  /**
+   * Deliver every deposit event of a monitor. Deliveries run in the background, in event order.
+   */
+  public attach(monitor: SeiDepositMonitor): void {
+    const callback: DepositCallback = (event) => {
+      this.enqueue(event);
+    };
+    monitor.onDeposit(callback);
+    this.attached.push({ monitor, callback });
+  }
+
+  public detach(): void {
+    for (const { monitor, callback } of this.attached) {
+      monitor.removeCallback(callback);
+    }
+    this.attached = [];
+  }
+
+  /**
+   * Queue an event for delivery after the ones already queued
+   */
+  public enqueue(event: DepositEvent): void {
+    this.queue = this.queue.then(() =>
+      this.deliver(event).then(
+        () => undefined,
+        (error) => this.logger.error(`Could not deliver or dead-letter ${WebhookNotifier.idFor(event)}`, error)
+      )
+    );
+  }
+
+  /**
+   * Wait for every queued delivery to finish (delivered or dead-lettered)
+   */
+  public flush(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * Deliver one event, retrying with backoff. Resolves to false if it was dead-lettered.
+   */
+  public async deliver(event: DepositEvent): Promise<boolean> {
+    const payload: WebhookPayload = {
+      version: WEBHOOK_PAYLOAD_VERSION,
+      id: WebhookNotifier.idFor(event),
+      event
+    };
+    const body = JSON.stringify(payload, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+    return this.send(payload.id, body);
+  }
+
+  /**
+   * Retry every dead letter once (with the usual retries). The ones still failing stay in the file.
+   *
+   * The letters are moved to `<deadLetterFile>.replay` first and that file is only removed once each
+   * of them was delivered or dead-lettered again, so a crash mid-replay loses nothing: the next replay
+   * picks the leftover file up (receivers drop letters delivered twice by their idempotency key).
+   */
+  public async replayDeadLetters(): Promise<{ delivered: number; failed: number }> {
+    const file = this.options.deadLetterFile;
+    if (!file) return { delivered: 0, failed: 0 };
+    const replayFile = `${file}.replay`;
+
+    // move the letters aside, so the ones failing again during the replay are appended to a fresh file
+    await this.withDeadLetters(async () => {
+      if (!(await this.exists(replayFile))) {
+        await fs.rename(file, replayFile).catch((error) => {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        });
+        return;
+      }
+      // an earlier replay was interrupted: add the newer letters to its file
+      const pending = await this.readDeadLetters(file);
+      if (pending.length) {
+        await fs.appendFile(replayFile, pending.map((letter) => JSON.stringify(letter) + '\n').join(''));
+      }
+      await fs.rm(file, { force: true });
+    });
+
+    // a letter can be listed twice if a replay was interrupted after re-queueing it
+    const letters = [...new Map((await this.readDeadLetters(replayFile)).map((l) => [l.id, l])).values()];
+    let delivered = 0;
+    for (const letter of letters) {
+      if (await this.send(letter.id, letter.body)) delivered++;
+    }
+    await fs.rm(replayFile, { force: true });
+    this.logger.info(`Replayed ${letters.length} dead letter(s) => ${delivered} delivered`);
+    return { delivered, failed: letters.length - delivered };
+  }
+
+  /**
+   * The idempotency key of an event: the deposit plus its lifecycle stage
+   */
+  static idFor(event: DepositEvent): string {
+    const stage = event.stage === 'confirmed' ? `confirmed-${event.confirmations}` : event.stage;
+    return `${DepositDeduplicator.keyFor(event.transaction)}:${stage}`;
+  }
+
+  private async send(id: string, body: string): Promise<boolean> {
+    const maxAttempts = this.options.maxAttempts ?? 5;
+    let lastError: unknown;
+    let attempt = 0;
+    while (attempt < maxAttempts) {
+      attempt++;
+      try {
+        await this.post(id, body);
+        this.logger.debug(`Delivered ${id} (attempt ${attempt})`);
+        return true;
+      } catch (error) {
+        lastError = error;
+        if (error instanceof PermanentDeliveryError) break;
+        if (attempt < maxAttempts) {
+          const delay = this.retryDelay(attempt);
+          this.logger.warn(`Delivery of ${id} failed, retrying in ${delay}ms`, error);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    this.logger.error(`Delivery of ${id} failed after ${attempt} attempt(s)`, lastError);
+    await this.deadLetter({
+      id,
+      body,
+      error: lastError instanceof Error ? lastError.message : String(lastError),
+      attempts: attempt,
+      failedAt: new Date().toISOString()
+    });
+    return false;
+  }
+
+  private async post(id: string, body: string): Promise<void> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout ?? 10000);
+    try {
+      const resp = await fetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          ...this.options.headers,
+          'Content-Type': 'application/json',
+          'Idempotency-Key': id,
+          'X-Webhook-Signature': WebhookNotifier.sign(this.options.secret, body, Math.floor(Date.now() / 1000))
+        },
+        body,
+        signal: controller.signal
+      });
+      if (resp.ok) return;
+
+      const message = `Webhook responded ${resp.status} => ${this.options.url}`;
+      if (resp.status >= 400 && resp.status < 500 && resp.status !== 408 && resp.status !== 429) {
+        throw new PermanentDeliveryError(message);
+      }
+      throw new Error(message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private retryDelay(attempt: number): number {
+    const delay = Math.min(this.options.maxDelay ?? 30000, (this.options.initialDelay ?? 1000) * 2 ** (attempt - 1));
+    // +/- 20% jitter, so receivers recovering from an outage are not hit all at once
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private async deadLetter(letter: DeadLetter): Promise<void> {
+    const file = this.options.deadLetterFile;
+    if (!file) {
+      this.logger.warn(`No dead-letter file configured, dropping ${letter.id}`);
+      return;
+    }
+    await this.withDeadLetters(() => fs.appendFile(file, JSON.stringify(letter) + '\n'));
+  }
+
+  private async readDeadLetters(file: string): Promise<DeadLetter[]> {
+    try {
+      const raw = await fs.readFile(file, 'utf8');
+      return raw
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as DeadLetter);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return [];
+    }
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // serialize dead-letter file access so appends and replays never interleave
+  private withDeadLetters(fn: () => Promise<void>): Promise<void> {
+    this.deadLetterQueue = this.deadLetterQueue.catch(() => undefined).then(fn);
+    return this.deadLetterQueue;
+  }
+}